@@ -1,44 +1,68 @@
 
-import { useEffect, useState } from 'react';
-import { AlertTriangle, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CameraOff, Eye, EyeOff, Film, Focus, MessagesSquare, MicOff, Moon, Pause, RefreshCw, ScanFace, Smartphone, UserX, Users, Volume2, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { toast } from '@/components/ui/use-toast';
+import EvidenceViewer from '@/components/EvidenceViewer';
+import type { DetectionCategory } from '@/utils/detectionUtils';
+import { getClipUrls, getSnapshotUrl } from '@/utils/evidenceUtils';
+import {
+  Incident,
+  IncidentSeverity,
+  formatDuration,
+  getIncidentDuration
+} from '@/utils/incidentUtils';
 
-export interface Alert {
-  id: string;
-  message: string;
-  type: 'warning' | 'danger' | 'safe';  // Modified to include 'safe' type
-  timestamp: Date;
-}
+const categoryIcons: Record<DetectionCategory, React.ReactNode> = {
+  faceAbsent: <EyeOff className="h-4 w-4" />,
+  multipleFaces: <Users className="h-4 w-4" />,
+  identityMismatch: <UserX className="h-4 w-4" />,
+  prohibitedObject: <Smartphone className="h-4 w-4" />,
+  liveness: <ScanFace className="h-4 w-4" />,
+  feedFrozen: <Pause className="h-4 w-4" />,
+  cameraCovered: <CameraOff className="h-4 w-4" />,
+  tooDark: <Moon className="h-4 w-4" />,
+  outOfFocus: <Focus className="h-4 w-4" />,
+  lookingAway: <Eye className="h-4 w-4" />,
+  audio: <Volume2 className="h-4 w-4" />,
+  multipleVoices: <MessagesSquare className="h-4 w-4" />,
+  microphone: <MicOff className="h-4 w-4" />,
+  pageReload: <RefreshCw className="h-4 w-4" />,
+};
 
 interface AlertBoxProps {
-  alerts: Alert[];
+  incidents: Incident[];
   onDismiss: (id: string) => void;
+  getEvidenceUrl?: (evidenceId: string) => string | null;
+  announced?: Incident[]; // Already announced, e.g. before the page was reloaded
 }
 
-const AlertBox = ({ alerts, onDismiss }: AlertBoxProps) => {
+const AlertBox = ({ incidents, onDismiss, getEvidenceUrl, announced = [] }: AlertBoxProps) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [viewing, setViewing] = useState<Incident | null>(null);
+  // Severity each incident was last announced at
+  const announcedRef = useRef(new Map<string, IncidentSeverity>());
   
-  // Show toast for new alerts
+  // Show a toast when an incident is raised or escalates to danger
   useEffect(() => {
-    if (alerts.length > 0) {
-      const latestAlert = alerts[0];
+    announced.forEach((incident) => {
+      if (!announcedRef.current.has(incident.id)) announcedRef.current.set(incident.id, incident.severity);
+    });
+    incidents.forEach((incident) => {
+      const announced = announcedRef.current.get(incident.id);
+      if (announced === incident.severity || announced === 'danger') return;
       
-      // Only show toast for alerts that are less than 1 second old
-      const isNew = (new Date().getTime() - latestAlert.timestamp.getTime()) < 1000;
-      
-      if (isNew) {
-        toast({
-          title: latestAlert.type === 'danger' ? 'Cheating Detected' : 'Warning',
-          description: latestAlert.message,
-          variant: latestAlert.type === 'danger' ? 'destructive' : 'default',
-        });
-      }
-    }
-  }, [alerts]);
+      announcedRef.current.set(incident.id, incident.severity);
+      toast({
+        title: incident.severity === 'danger' ? 'Cheating Detected' : 'Warning',
+        description: incident.message,
+        variant: incident.severity === 'danger' ? 'destructive' : 'default',
+      });
+    });
+  }, [incidents, announced]);
 
-  if (alerts.length === 0) {
+  if (incidents.length === 0) {
     return (
       <Card className="border border-dashed">
         <CardContent className="p-4 text-center text-muted-foreground">
@@ -51,13 +75,13 @@ const AlertBox = ({ alerts, onDismiss }: AlertBoxProps) => {
   return (
     <Card className={cn(
       "border-destructive/50",
-      alerts.some(a => a.type === 'danger') && "animate-alert-flash"
+      incidents.some(i => i.severity === 'danger' && i.endTime === null) && "animate-alert-flash"
     )}>
       <div className="flex items-center justify-between p-4 border-b">
         <div className="flex items-center gap-2">
           <AlertTriangle className="h-5 w-5 text-detection-danger" />
           <h3 className="font-semibold">
-            Suspicious Activity ({alerts.length})
+            Suspicious Activity ({incidents.length})
           </h3>
         </div>
         <button 
@@ -71,32 +95,68 @@ const AlertBox = ({ alerts, onDismiss }: AlertBoxProps) => {
       {!isCollapsed && (
         <CardContent className="p-0 max-h-[300px] overflow-y-auto">
           <ul className="divide-y">
-            {alerts.map((alert) => (
-              <li 
-                key={alert.id} 
-                className={cn(
-                  "flex items-start justify-between p-4",
-                  alert.type === 'danger' ? 'bg-destructive/5' : 'bg-orange-50'
-                )}
-              >
-                <div className="flex-1">
-                  <p className="font-medium">{alert.message}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {alert.timestamp.toLocaleTimeString()}
-                  </p>
-                </div>
-                <button
-                  onClick={() => onDismiss(alert.id)}
-                  className="text-muted-foreground hover:text-destructive"
-                  aria-label="Dismiss alert"
+            {incidents.map((incident) => {
+              const snapshotUrl = getSnapshotUrl(incident, getEvidenceUrl);
+              const hasClip = getClipUrls(incident, getEvidenceUrl).length > 0;
+              return (
+                <li 
+                  key={incident.id} 
+                  className={cn(
+                    "flex items-start justify-between p-4",
+                    incident.severity === 'danger' ? 'bg-destructive/5' : 'bg-orange-50'
+                  )}
                 >
-                  <X className="h-4 w-4" />
-                </button>
-              </li>
-            ))}
+                  <div className="mt-1 mr-3 text-muted-foreground">
+                    {categoryIcons[incident.category]}
+                  </div>
+                  {snapshotUrl && (
+                    <button
+                      onClick={() => setViewing(incident)}
+                      className="mr-3 shrink-0 overflow-hidden rounded border hover:ring-2 hover:ring-primary"
+                      aria-label="View snapshot"
+                    >
+                      <img src={snapshotUrl} alt="" className="h-12 w-16 object-cover" />
+                    </button>
+                  )}
+                  {!snapshotUrl && hasClip && (
+                    <button
+                      onClick={() => setViewing(incident)}
+                      className="mr-3 mt-1 text-muted-foreground hover:text-foreground"
+                      aria-label="View clip"
+                    >
+                      <Film className="h-4 w-4" />
+                    </button>
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium">{incident.message}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(incident.startTime).toLocaleTimeString()}
+                      {incident.endTime === null
+                        ? ' · ongoing'
+                        : ` · ${formatDuration(getIncidentDuration(incident))}`}
+                      {` · ${Math.round(incident.confidence * 100)}% confidence`}
+                      {hasClip && ' · clip saved'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onDismiss(incident.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Dismiss alert"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
           </ul>
         </CardContent>
       )}
+      
+      <EvidenceViewer
+        incident={viewing}
+        onClose={() => setViewing(null)}
+        getEvidenceUrl={getEvidenceUrl}
+      />
     </Card>
   );
 };
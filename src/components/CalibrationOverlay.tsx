@@ -0,0 +1,58 @@
+import { Crosshair } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CalibrationStep, CalibrationTarget } from '@/utils/calibrationUtils';
+
+interface CalibrationOverlayProps {
+  step: CalibrationStep | null;
+  progress: number; // 0-1
+  faceVisible: boolean;
+  onSkip: () => void;
+}
+
+// Where the target dot sits for each calibration step
+const targetPositions: Record<CalibrationTarget, string> = {
+  center: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+  topLeft: 'top-6 left-6',
+  topRight: 'top-6 right-6',
+  bottomRight: 'bottom-6 right-6',
+  bottomLeft: 'bottom-6 left-6',
+};
+
+const CalibrationOverlay = ({ step, progress, faceVisible, onSkip }: CalibrationOverlayProps) => {
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95">
+      {step && (
+        <div
+          className={cn(
+            "absolute h-6 w-6 rounded-full bg-detection-info ring-8 ring-detection-info/30 animate-pulse",
+            targetPositions[step.target]
+          )}
+        />
+      )}
+
+      <div className="absolute left-1/2 top-1/3 -translate-x-1/2 w-full max-w-sm px-4 text-center space-y-4">
+        <div className="flex items-center justify-center gap-2">
+          <Crosshair className="h-5 w-5 text-detection-info" />
+          <h2 className="text-lg font-semibold">Calibrating</h2>
+        </div>
+        <p className="font-medium">{step ? step.label : 'Finishing calibration...'}</p>
+        <p className={cn(
+          "text-sm",
+          faceVisible ? "text-muted-foreground" : "text-detection-warning"
+        )}>
+          {faceVisible
+            ? 'Look at the dot the way you would look at that part of the screen.'
+            : 'Make sure your face is clearly visible to the camera.'}
+        </p>
+        <Progress value={progress * 100} className="h-2" />
+        <Button variant="ghost" size="sm" onClick={onSkip}>
+          Skip calibration
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationOverlay;
@@ -1,14 +1,43 @@
 
 import { useEffect, useState } from 'react';
-import { Shield, Check, AlertTriangle, AlertCircle, Eye, Users, Brain, Volume2 } from 'lucide-react';
+import { Shield, Check, AlertTriangle, AlertCircle, Eye, Users, Brain, Volume2, MicOff, Gauge, UserCheck, Smartphone, ScanFace, Camera, ShieldAlert } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { 
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import type { IdentityCheck } from '@/utils/identityUtils';
+import { DetectedObject, getObjectName } from '@/utils/objectDetectionUtils';
+import type { LivenessResult } from '@/utils/livenessUtils';
+import type { FrameQuality, FrameQualityIssue } from '@/utils/frameQualityUtils';
+import type { MicrophoneIssue } from '@/utils/microphoneHealth';
+import { CATEGORY_LABELS, formatDuration } from '@/utils/incidentUtils';
+import { RISK_LEVEL_LABELS, RiskAssessment } from '@/utils/riskScore';
+
+const frameQualityLabels: Record<FrameQualityIssue, string> = {
+  feedFrozen: 'Frozen',
+  cameraCovered: 'Covered',
+  tooDark: 'Too dark',
+  outOfFocus: 'Blurred',
+};
+
+const microphoneLabels: Record<MicrophoneIssue, string> = {
+  ended: 'Disconnected',
+  muted: 'Muted',
+  digitalSilence: 'No signal',
+  deviceChanged: 'Device changed',
+};
+
+const microphoneTooltips: Record<MicrophoneIssue, string> = {
+  ended: 'The microphone was unplugged or its permission was revoked',
+  muted: 'The microphone is muted by the system or its hardware switch',
+  digitalSilence: 'The microphone delivers exact silence, which a working microphone never does',
+  deviceChanged: 'An audio device was connected or removed while monitoring',
+};
 
 interface StatusItemProps {
   icon: React.ReactNode;
@@ -62,8 +91,18 @@ interface DetectionStatusProps {
   faceCount: number;
   lookingAway: boolean;
   estimatedAttention: number;
-  noiseDetected?: boolean;
+  analysedFps?: number;
+  identity?: IdentityCheck | null;
+  prohibitedObjects?: DetectedObject[];
+  liveness?: LivenessResult | null;
+  frameQuality?: FrameQuality | null;
+  speechDetected?: boolean;
+  audioCalibrating?: boolean;
+  noiseFloor?: number | null;
+  voiceCount?: number;
+  microphoneIssue?: MicrophoneIssue | null;
   volumeLevel?: number;
+  risk?: RiskAssessment | null;
   status: 'safe' | 'warning' | 'danger';
   statusMessage: string;
 }
@@ -73,8 +112,18 @@ const DetectionStatus = ({
   faceCount,
   lookingAway,
   estimatedAttention,
-  noiseDetected = false,
+  analysedFps,
+  identity,
+  prohibitedObjects,
+  liveness,
+  frameQuality,
+  speechDetected = false,
+  audioCalibrating = false,
+  noiseFloor,
+  voiceCount = 0,
+  microphoneIssue,
   volumeLevel = 0,
+  risk,
   status,
   statusMessage
 }: DetectionStatusProps) => {
@@ -130,6 +179,41 @@ const DetectionStatus = ({
           <span className="font-medium">{statusMessage}</span>
         </div>
 
+        {/* Cumulative risk over the session, with what drives it */}
+        {risk && (
+          <div className="space-y-2 p-3 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <ShieldAlert className="h-4 w-4" />
+                Session Risk
+              </span>
+              <span className={cn(
+                "text-sm font-semibold",
+                risk.level === 'low' && "text-detection-safe",
+                risk.level === 'elevated' && "text-detection-warning",
+                risk.level === 'high' && "text-detection-danger"
+              )}>
+                {risk.score}/100 · {RISK_LEVEL_LABELS[risk.level]}
+              </span>
+            </div>
+            <Progress value={risk.score} className="h-2" />
+            {risk.factors.length > 0 ? (
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {risk.factors.slice(0, 3).map((factor) => (
+                  <li key={factor.category} className="flex justify-between gap-2">
+                    <span>
+                      {CATEGORY_LABELS[factor.category]} ({factor.incidentCount}×, {formatDuration(factor.activeDuration)})
+                    </span>
+                    <span>{Math.round(factor.share * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">No incidents so far</p>
+            )}
+          </div>
+        )}
+
         {/* Status metrics grid */}
         <div className="grid grid-cols-2 gap-2">
           <StatusItem 
@@ -153,7 +237,7 @@ const DetectionStatus = ({
             label="Looking Away"
             value={lookingAway ? "Yes" : "No"}
             status={lookingAway ? "warning" : "safe"}
-            tooltip="Detects if the student is frequently looking away from the screen"
+            tooltip="Detects if the student keeps their head turned away from the screen"
           />
           
           <StatusItem 
@@ -167,14 +251,97 @@ const DetectionStatus = ({
             tooltip="Estimated attention level based on behavior"
           />
           
+          {identity && identity.state !== 'unavailable' && (
+            <StatusItem 
+              icon={<UserCheck className="h-4 w-4" />}
+              label="Identity"
+              value={
+                identity.state === 'enrolling' ? "Enrolling" :
+                `${identity.state === 'mismatch' ? "Mismatch" : "Verified"} (${Math.round((identity.similarity ?? 0) * 100)}%)`
+              }
+              status={
+                identity.state === 'mismatch' ? "danger" :
+                identity.state === 'enrolling' ? "info" : "safe"
+              }
+              tooltip="Compares the face on camera with the one enrolled at session start"
+            />
+          )}
+          
+          {prohibitedObjects !== undefined && (
+            <StatusItem 
+              icon={<Smartphone className="h-4 w-4" />}
+              label="Prohibited Objects"
+              value={
+                prohibitedObjects.length > 0
+                  ? Array.from(new Set(prohibitedObjects.map((object) => getObjectName(object.label)))).join(', ')
+                  : "None"
+              }
+              status={prohibitedObjects.length > 0 ? "danger" : "safe"}
+              tooltip="Phones, books or second screens visible to the camera"
+            />
+          )}
+          
+          {frameQuality && (
+            <StatusItem 
+              icon={<Camera className="h-4 w-4" />}
+              label="Camera"
+              value={frameQuality.issue ? frameQualityLabels[frameQuality.issue] : "Clear"}
+              status={
+                frameQuality.issue === 'feedFrozen' || frameQuality.issue === 'cameraCovered' ? "danger" :
+                frameQuality.issue ? "warning" : "safe"
+              }
+              tooltip={`Brightness ${Math.round(frameQuality.brightness)}, contrast ${Math.round(frameQuality.contrast)}, sharpness ${Math.round(frameQuality.sharpness)}`}
+            />
+          )}
+          
+          {liveness && (
+            <StatusItem 
+              icon={<ScanFace className="h-4 w-4" />}
+              label="Liveness"
+              value={
+                liveness.replayDetected ? "Replay" :
+                liveness.staticFeed ? "Static feed" :
+                liveness.noLifeSigns ? "Suspect" :
+                liveness.ready ? "Live" : "Checking"
+              }
+              status={
+                liveness.replayDetected ? "danger" :
+                liveness.livenessSuspect ? "warning" :
+                liveness.ready ? "safe" : "info"
+              }
+              tooltip={`Blinks, natural movement and frame changes over the last 30 seconds (${liveness.blinkCount} blinks)`}
+            />
+          )}
+          
+          {analysedFps !== undefined && (
+            <StatusItem 
+              icon={<Gauge className="h-4 w-4" />}
+              label="Coverage"
+              value={`${analysedFps} fps`}
+              status="info"
+              tooltip="Video frames actually analysed in the last second"
+            />
+          )}
+          
           {/* Add Audio Monitoring */}
-          {volumeLevel !== undefined && (
+          {volumeLevel !== undefined && microphoneIssue && (
+            <StatusItem 
+              icon={<MicOff className="h-4 w-4" />}
+              label="Audio Activity"
+              value={microphoneLabels[microphoneIssue]}
+              status={microphoneIssue === 'deviceChanged' ? "warning" : "danger"}
+              tooltip={microphoneTooltips[microphoneIssue]}
+            />
+          )}
+          {volumeLevel !== undefined && !microphoneIssue && (
             <StatusItem 
               icon={<Volume2 className="h-4 w-4" />}
               label="Audio Activity"
-              value={noiseDetected ? "Suspicious" : "Normal"}
-              status={noiseDetected ? "warning" : "safe"}
-              tooltip="Detects suspicious audio patterns like conversations"
+              value={audioCalibrating ? "Calibrating" : voiceCount > 1 ? `${voiceCount} voices` : speechDetected ? "Speech" : "Quiet"}
+              status={audioCalibrating ? "info" : voiceCount > 1 ? "danger" : speechDetected ? "warning" : "safe"}
+              tooltip={audioCalibrating
+                ? "Measuring the background noise of the room; stay quiet for a few seconds"
+                : `Detects voices above the room's background${typeof noiseFloor === 'number' ? ` (${Math.round(noiseFloor)} dBFS)` : ''} and tells different voices apart, ignoring fans, typing and other noise`}
             />
           )}
         </div>
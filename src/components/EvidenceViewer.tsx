@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getClipUrls, getSnapshotUrl } from '@/utils/evidenceUtils';
+import type { Incident } from '@/utils/incidentUtils';
+
+interface EvidenceViewerProps {
+  incident: Incident | null;
+  onClose: () => void;
+  getEvidenceUrl?: (evidenceId: string) => string | null;
+}
+
+// Plays the segments of a clip back to back
+const ClipPlayer = ({ urls }: { urls: string[] }) => {
+  const [index, setIndex] = useState(0);
+
+  return (
+    <div className="space-y-1">
+      <video
+        key={urls[index]}
+        src={urls[index]}
+        controls
+        autoPlay={index > 0}
+        onEnded={() => setIndex((current) => Math.min(current + 1, urls.length - 1))}
+        className="w-full rounded border bg-black"
+      />
+      {urls.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Segment {index + 1} of {urls.length}
+          {index > 0 && (
+            <button onClick={() => setIndex(0)} className="ml-2 underline hover:text-foreground">
+              Restart
+            </button>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Shows the snapshot and clip captured for an incident
+const EvidenceViewer = ({ incident, onClose, getEvidenceUrl }: EvidenceViewerProps) => {
+  const snapshotUrl = incident ? getSnapshotUrl(incident, getEvidenceUrl) : null;
+  const clipUrls = incident ? getClipUrls(incident, getEvidenceUrl) : [];
+
+  return (
+    <Dialog open={incident !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {incident && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{incident.message}</DialogTitle>
+              <DialogDescription>
+                Started at {new Date(incident.startTime).toLocaleTimeString()}
+                {` · ${Math.round(incident.confidence * 100)}% confidence`}
+              </DialogDescription>
+            </DialogHeader>
+            {snapshotUrl && (
+              <img
+                src={snapshotUrl}
+                alt={`Snapshot of ${incident.message}`}
+                className="w-full rounded border"
+              />
+            )}
+            {clipUrls.length > 0 && (
+              <ClipPlayer key={incident.id} urls={clipUrls} />
+            )}
+            {!snapshotUrl && clipUrls.length === 0 && (
+              <p className="text-sm text-muted-foreground">No evidence was captured for this incident.</p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EvidenceViewer;
@@ -0,0 +1,307 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileCheck, FileJson, FileSpreadsheet, FileText, Printer, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from '@/components/ui/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CATEGORY_LABELS, formatDuration } from '@/utils/incidentUtils';
+import { RISK_LEVEL_LABELS } from '@/utils/riskScore';
+import {
+  ReportVerification,
+  SessionReport,
+  downloadFile,
+  incidentsToCsv,
+  loadSessionReport,
+  renderReportHtml,
+  serializeReport,
+  verifyReportFile,
+  verifySessionReport,
+} from '@/utils/reportUtils';
+import type { SessionStore, StoredEvidence } from '@/utils/sessionStore';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  store: SessionStore | null;
+  sessionId: string | null;
+  onDeleted?: (sessionId: string) => void;
+}
+
+const ReportDialog = ({ open, onOpenChange, store, sessionId, onDeleted }: ReportDialogProps) => {
+  const [report, setReport] = useState<SessionReport | null>(null);
+  const [evidence, setEvidence] = useState<StoredEvidence[]>([]);
+  const [verification, setVerification] = useState<ReportVerification | null>(null);
+  const [trustedFingerprint, setTrustedFingerprint] = useState('');
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Rebuild the report each time the dialog opens so it reflects the finished session
+  useEffect(() => {
+    if (!open || !store || !sessionId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    loadSessionReport(store, sessionId)
+      .then(async (loaded) => {
+        // This browser holds the log it checks, so the key itself cannot be vouched for here
+        const result = loaded ? await verifySessionReport(loaded.report, null) : null;
+        if (cancelled) return;
+        setReport(loaded?.report ?? null);
+        setEvidence(loaded?.evidence ?? []);
+        setVerification(result);
+      })
+      .catch((error) => {
+        console.error('Error building session report:', error);
+        if (!cancelled) setReport(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, store, sessionId]);
+
+  const filename = (extension: string) => `cheatguardian-${report?.session.id ?? 'report'}.${extension}`;
+
+  const exportFile = async (format: 'json' | 'csv' | 'html') => {
+    if (!report) return;
+    try {
+      if (format === 'json') {
+        downloadFile(serializeReport(report), filename('json'), 'application/json');
+      } else if (format === 'csv') {
+        downloadFile(incidentsToCsv(report), filename('csv'), 'text/csv');
+      } else {
+        downloadFile(await renderReportHtml(report, evidence), filename('html'), 'text/html');
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      toast({
+        title: 'Export Failed',
+        description: 'The report could not be generated.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Open the HTML report in a new window and let the browser print it or save it as PDF
+  const printReport = async () => {
+    if (!report) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast({
+        title: 'Pop-up Blocked',
+        description: 'Allow pop-ups for this page to print the report, or download it as HTML.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    printWindow.document.write(await renderReportHtml(report, evidence));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  // Remove the session with its incidents, samples, evidence and log from this browser
+  const deleteSession = async () => {
+    if (!store || !sessionId) return;
+    if (!window.confirm('Delete this session and all its evidence from this browser? Export the report first if you need it.')) return;
+    try {
+      await store.deleteSession(sessionId);
+      onOpenChange(false);
+      onDeleted?.(sessionId);
+      toast({
+        title: 'Session Deleted',
+        description: 'The session and its evidence were removed from this browser.',
+      });
+    } catch (error) {
+      console.error('Error deleting session:', error);
+      toast({
+        title: 'Delete Failed',
+        description: 'The session could not be removed.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Check a JSON export handed in for review against the key fingerprint
+  // recorded when its session started
+  const verifyFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await verifyReportFile(await file.text(), trustedFingerprint.trim());
+      toast(result.valid ? {
+        title: 'Report Verified',
+        description: `${file.name}: signed with key ${result.keyFingerprint}; the incident log is intact (${result.entryCount} entries) and matches the incidents. Summary, risk score and timeline are not signed.`,
+      } : {
+        title: 'Report Verification Failed',
+        description: `${file.name}: ${result.break?.message}`,
+        variant: 'destructive',
+      });
+    } catch (error) {
+      console.error('Error verifying report file:', error);
+      toast({
+        title: 'Report Verification Failed',
+        description: `${file.name} is not a valid CheatGuardian report.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const summary = report?.summary;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Session Report</DialogTitle>
+          <DialogDescription>
+            Export the incidents, timeline and settings of the last monitoring session for review.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Building report...</p>
+        ) : !summary ? (
+          <p className="text-sm text-muted-foreground">
+            {store ? 'No saved session was found.' : 'This browser cannot store the session log, so no report is available.'}
+          </p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-md border p-3">
+                <p className="text-muted-foreground">Duration</p>
+                <p className="text-lg font-semibold">{formatDuration(summary.duration)}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-muted-foreground">Incidents</p>
+                <p className="text-lg font-semibold">
+                  {summary.incidentCount}
+                  {summary.dangerCount > 0 && (
+                    <span className="ml-1 text-sm text-detection-danger">({summary.dangerCount} critical)</span>
+                  )}
+                </p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-muted-foreground">Time flagged</p>
+                <p className="text-lg font-semibold">{formatDuration(summary.flaggedDuration)}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-muted-foreground">Average attention</p>
+                <p className="text-lg font-semibold">
+                  {summary.averageAttention === null ? 'n/a' : `${summary.averageAttention}%`}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <span className="text-muted-foreground">Risk score</span>
+              <span className={cn(
+                'font-semibold',
+                report.risk.level === 'elevated' && 'text-detection-warning',
+                report.risk.level === 'high' && 'text-detection-danger'
+              )}>
+                {report.risk.score}/100 · {RISK_LEVEL_LABELS[report.risk.level]}
+              </span>
+            </div>
+
+            {summary.categories.length > 0 && (
+              <ul className="space-y-1">
+                {summary.categories.map((entry) => (
+                  <li key={entry.category} className="flex justify-between">
+                    <span>{CATEGORY_LABELS[entry.category]}</span>
+                    <span className="text-muted-foreground">
+                      {entry.count} · {formatDuration(entry.totalDuration)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {report.integrity && verification && (
+              <div className="flex items-start gap-2 rounded-md border p-3">
+                {verification.valid ? (
+                  <ShieldCheck className="h-4 w-4 mt-0.5 text-detection-safe" />
+                ) : (
+                  <ShieldAlert className="h-4 w-4 mt-0.5 text-detection-danger" />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {verification.valid
+                      ? `Signed incident log intact (${verification.entryCount} entries)`
+                      : verification.break?.message}
+                  </p>
+                  <p className="text-xs text-muted-foreground font-mono">{verification.keyFingerprint}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Covers the incidents only. The signing key stays in this browser and can sign
+                    entries until the session ends, so compare the fingerprint with the one recorded
+                    at session start before trusting an export.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-wrap gap-2 sm:justify-start">
+          <Button variant="outline" size="sm" disabled={!report} onClick={() => exportFile('json')}>
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+          <Button variant="outline" size="sm" disabled={!report} onClick={() => exportFile('csv')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" disabled={!report} onClick={() => exportFile('html')}>
+            <FileText className="h-4 w-4 mr-2" />
+            HTML
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              verifyFile(event.target.files?.[0]);
+              event.target.value = '';
+            }}
+          />
+          <Input
+            value={trustedFingerprint}
+            onChange={(event) => setTrustedFingerprint(event.target.value)}
+            placeholder="Expected key fingerprint"
+            aria-label="Expected key fingerprint"
+            className="h-9 w-56 font-mono text-xs"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={trustedFingerprint.trim() === ''}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileCheck className="h-4 w-4 mr-2" />
+            Verify file
+          </Button>
+          <Button size="sm" disabled={!report} onClick={printReport}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print / PDF
+          </Button>
+          <Button variant="destructive" size="sm" disabled={!report} onClick={deleteSession}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
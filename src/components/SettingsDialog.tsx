@@ -0,0 +1,506 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, RotateCcw, Upload } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  DETECTION_PRESETS,
+  DEFAULT_DETECTION_CONFIG,
+  DetectionConfig,
+  DetectionConfigSection,
+  DetectionPresetId,
+  describeConfigError,
+  findMatchingPreset,
+  getPresetConfig,
+  parseDetectionConfig,
+  serializeDetectionConfig,
+  validateSetting,
+} from '@/utils/detectionConfig';
+import { PROHIBITED_OBJECT_NAMES } from '@/utils/objectDetectionUtils';
+import { DETECTION_CATEGORIES } from '@/utils/detectionUtils';
+import { CATEGORY_LABELS } from '@/utils/incidentUtils';
+import { downloadFile } from '@/utils/reportUtils';
+import { DEFAULT_DETECTION_RULES, DetectionRule, ruleSetSchema } from '@/utils/ruleEngine';
+
+interface NumberSetting {
+  section: DetectionConfigSection;
+  key: string;
+  label: string;
+  step: number;
+  unit?: string;
+}
+
+interface SettingsTab {
+  id: string;
+  label: string;
+  settings: NumberSetting[];
+}
+
+const SETTINGS_TABS: SettingsTab[] = [
+  {
+    id: 'face',
+    label: 'Face',
+    settings: [
+      { section: 'face', key: 'faceDisappearanceThreshold', label: 'Frames without a face before danger', step: 1 },
+      { section: 'face', key: 'maxFaces', label: 'Maximum faces detected', step: 1 },
+      { section: 'face', key: 'scoreThreshold', label: 'Face detection confidence', step: 0.05 },
+      { section: 'face', key: 'iouThreshold', label: 'Face overlap (IoU) threshold', step: 0.05 },
+      { section: 'face', key: 'yawThreshold', label: 'Head turn threshold', step: 1, unit: '°' },
+      { section: 'face', key: 'pitchThreshold', label: 'Head tilt threshold', step: 1, unit: '°' },
+      { section: 'face', key: 'lookingAwayDuration', label: 'Looking away duration', step: 100, unit: 'ms' },
+      { section: 'face', key: 'poseMargin', label: 'Margin beyond calibrated range', step: 1, unit: '°' },
+      { section: 'face', key: 'maxCenterOffset', label: 'Movement from calibrated position', step: 0.25, unit: '× face size' },
+      { section: 'face', key: 'maxHeadPositions', label: 'Head positions tracked', step: 1 },
+      { section: 'face', key: 'headMovementThreshold', label: 'Head movement threshold (uncalibrated)', step: 1, unit: 'px' },
+      { section: 'face', key: 'relativeMovementThreshold', label: 'Head movement threshold (calibrated)', step: 0.05, unit: '× face width' },
+      { section: 'face', key: 'positionTrackingInterval', label: 'Head tracking interval', step: 50, unit: 'ms' },
+    ],
+  },
+  {
+    id: 'identity',
+    label: 'Identity & objects',
+    settings: [
+      { section: 'identity', key: 'similarityThreshold', label: 'Identity similarity threshold', step: 0.05 },
+      { section: 'identity', key: 'checkInterval', label: 'Identity check interval', step: 500, unit: 'ms' },
+      { section: 'identity', key: 'consecutiveMismatches', label: 'Mismatches before alerting', step: 1 },
+      { section: 'identity', key: 'enrollmentSamples', label: 'Enrollment samples', step: 1 },
+      { section: 'objects', key: 'minConfidence', label: 'Object detection confidence', step: 0.05 },
+      { section: 'objects', key: 'interval', label: 'Object detection interval', step: 250, unit: 'ms' },
+    ],
+  },
+  {
+    id: 'camera',
+    label: 'Camera',
+    settings: [
+      { section: 'frameQuality', key: 'darkBrightness', label: 'Too dark below brightness', step: 1 },
+      { section: 'frameQuality', key: 'coveredContrast', label: 'Covered below contrast', step: 1 },
+      { section: 'frameQuality', key: 'outOfFocusSharpness', label: 'Blurred below sharpness', step: 1 },
+      { section: 'frameQuality', key: 'frozenDuration', label: 'Frozen after', step: 250, unit: 'ms' },
+      { section: 'frameQuality', key: 'issueDuration', label: 'Camera issue duration', step: 250, unit: 'ms' },
+      { section: 'liveness', key: 'windowDuration', label: 'Liveness window', step: 1000, unit: 'ms' },
+      { section: 'liveness', key: 'minBlinksPerWindow', label: 'Blinks expected per window', step: 1 },
+      { section: 'liveness', key: 'replayMinRepeats', label: 'Repeated frames before replay', step: 1 },
+    ],
+  },
+  {
+    id: 'evidence',
+    label: 'Evidence',
+    settings: [
+      { section: 'evidence', key: 'snapshotQuality', label: 'Snapshot quality', step: 0.05 },
+      { section: 'evidence', key: 'snapshotMaxWidth', label: 'Snapshot width', step: 80, unit: 'px' },
+      { section: 'evidence', key: 'maxSnapshots', label: 'Snapshots kept per session', step: 10 },
+      { section: 'clips', key: 'preRoll', label: 'Clip time before incident', step: 1000, unit: 'ms' },
+      { section: 'clips', key: 'postRoll', label: 'Clip time after incident', step: 1000, unit: 'ms' },
+      { section: 'clips', key: 'segmentDuration', label: 'Recording segment length', step: 1000, unit: 'ms' },
+      { section: 'clips', key: 'maxBufferMegabytes', label: 'Recording buffer limit', step: 5, unit: 'MB' },
+      { section: 'clips', key: 'maxStoredMegabytes', label: 'Saved clips limit', step: 50, unit: 'MB' },
+    ],
+  },
+  {
+    id: 'audio',
+    label: 'Audio & alerts',
+    settings: [
+      { section: 'audio', key: 'speechThreshold', label: 'Speech probability threshold', step: 0.05 },
+      { section: 'audio', key: 'noiseMargin', label: 'Sound needed above the background', step: 1, unit: 'dB' },
+      { section: 'audio', key: 'calibrationDuration', label: 'Background measurement', step: 500, unit: 'ms' },
+      { section: 'audio', key: 'minLevel', label: 'Silence below (uncalibrated)', step: 1, unit: 'dBFS' },
+      { section: 'audio', key: 'onsetDuration', label: 'Speech needed to start a segment', step: 50, unit: 'ms' },
+      { section: 'audio', key: 'hangoverDuration', label: 'Pause that ends a segment', step: 50, unit: 'ms' },
+      { section: 'audio', key: 'minSpeechBandRatio', label: 'Minimum speech-band energy', step: 0.05 },
+      { section: 'audio', key: 'maxFlatness', label: 'Maximum spectral flatness', step: 0.05 },
+      { section: 'audio', key: 'voiceSeparation', label: 'Separation between different voices', step: 0.5 },
+      { section: 'audio', key: 'speakerWindow', label: 'Speech compared for other voices', step: 1000, unit: 'ms' },
+      { section: 'audio', key: 'silenceDuration', label: 'Dead microphone after', step: 500, unit: 'ms' },
+      { section: 'alerts', key: 'dedupeWindow', label: 'Repeated alert suppression', step: 1000, unit: 'ms' },
+      { section: 'scheduler', key: 'targetFps', label: 'Target detection rate', step: 1, unit: 'fps' },
+      { section: 'scheduler', key: 'minFps', label: 'Minimum detection rate', step: 0.5, unit: 'fps' },
+      { section: 'scheduler', key: 'hiddenFps', label: 'Rate while tab is hidden', step: 0.5, unit: 'fps' },
+    ],
+  },
+  {
+    id: 'risk',
+    label: 'Risk score',
+    settings: [
+      { section: 'risk', key: 'halfLife', label: 'Incident half-life', step: 60000, unit: 'ms' },
+      { section: 'risk', key: 'dangerMultiplier', label: 'Critical incident multiplier', step: 0.1, unit: '×' },
+      { section: 'risk', key: 'durationWeight', label: 'Extra weight per minute', step: 0.1, unit: '× weight' },
+      { section: 'risk', key: 'maxDurationMinutes', label: 'Longest duration counted', step: 1, unit: 'min' },
+      { section: 'risk', key: 'repeatMultiplier', label: 'Extra weight per repeat', step: 0.05, unit: '× weight' },
+      { section: 'risk', key: 'scale', label: 'Points for a score of 63', step: 5 },
+      { section: 'risk', key: 'elevatedThreshold', label: 'Elevated risk from score', step: 1 },
+      { section: 'risk', key: 'highThreshold', label: 'High risk from score', step: 1 },
+      ...DETECTION_CATEGORIES.map((category) => ({
+        section: 'riskWeights' as const,
+        key: category,
+        label: `${CATEGORY_LABELS[category]} weight`,
+        step: 1,
+        unit: 'points',
+      })),
+    ],
+  },
+  {
+    id: 'rules',
+    label: 'Rules',
+    settings: [],
+  },
+];
+
+interface NumberFieldProps {
+  setting: NumberSetting;
+  value: number;
+  defaultValue: number;
+  config: DetectionConfig; // For settings that are checked against others
+  onCommit: (value: number) => void;
+}
+
+// Edits are kept as text and applied on blur or Enter, once they validate,
+// so partial input like "0." never reaches the detectors
+const NumberField = ({ setting, value, defaultValue, config, onCommit }: NumberFieldProps) => {
+  const [draft, setDraft] = useState(String(value));
+  const [error, setError] = useState<string | null>(null);
+  const id = `setting-${setting.section}-${setting.key}`;
+
+  useEffect(() => {
+    setDraft(String(value));
+    setError(null);
+  }, [value]);
+
+  const parse = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    setError(validateSetting(setting.section, setting.key, parse(text), config));
+  };
+
+  // Apply a valid edit, or go back to the current value
+  const commit = () => {
+    const parsed = parse(draft);
+    if (parsed !== value && !validateSetting(setting.section, setting.key, parsed, config)) {
+      onCommit(parsed);
+      return;
+    }
+    setDraft(String(value));
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {setting.label}
+        {setting.unit && <span className="text-muted-foreground"> ({setting.unit})</span>}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        step={setting.step}
+        value={draft}
+        onChange={(event) => handleChange(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit();
+        }}
+        className={error ? 'border-detection-danger' : undefined}
+      />
+      <p className="text-[11px] text-muted-foreground">
+        {error ? <span className="text-detection-danger">{error}</span> : `Default: ${defaultValue}`}
+      </p>
+    </div>
+  );
+};
+
+interface RuleSetEditorProps {
+  rules: DetectionRule[];
+  onCommit: (rules: DetectionRule[]) => void;
+}
+
+// The whole rule set as JSON; it is only applied once it parses and validates
+const RuleSetEditor = ({ rules, onCommit }: RuleSetEditorProps) => {
+  const [draft, setDraft] = useState(() => JSON.stringify(rules, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const committedRef = useRef(rules);
+
+  // Replace the draft only when the rules changed elsewhere, e.g. a toggle or a preset,
+  // so applying a valid edit does not reformat the text being typed
+  useEffect(() => {
+    if (rules === committedRef.current) return;
+    committedRef.current = rules;
+    setDraft(JSON.stringify(rules, null, 2));
+    setError(null);
+  }, [rules]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    try {
+      const parsed = ruleSetSchema.parse(JSON.parse(text)) as DetectionRule[];
+      setError(null);
+      committedRef.current = parsed;
+      onCommit(parsed);
+    } catch (parseError) {
+      setError(describeConfigError(parseError));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="setting-rules-json" className="text-xs">Rule definitions (JSON)</Label>
+      <Textarea
+        id="setting-rules-json"
+        value={draft}
+        onChange={(event) => handleChange(event.target.value)}
+        spellCheck={false}
+        className={`h-64 font-mono text-xs ${error ? 'border-detection-danger' : ''}`}
+      />
+      <p className="text-[11px] text-muted-foreground">
+        {error
+          ? <span className="text-detection-danger">{error}</span>
+          : 'Conditions combine signals with all, any and not, and can require them to hold (heldFor), repeat (count within) or occur during another condition.'}
+      </p>
+    </div>
+  );
+};
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: DetectionConfig;
+  onChange: (config: DetectionConfig) => void;
+}
+
+const SettingsDialog = ({ open, onOpenChange, config, onChange }: SettingsDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const preset = findMatchingPreset(config);
+
+  const updateSetting = <Section extends DetectionConfigSection>(
+    section: Section,
+    values: Partial<DetectionConfig[Section]>
+  ) => {
+    onChange({ ...config, [section]: { ...config[section], ...values } });
+  };
+
+  const toggleRule = (id: string, enabled: boolean) => {
+    updateSetting('rules', {
+      rules: config.rules.rules.map((rule) => rule.id === id ? { ...rule, enabled } : rule),
+    });
+  };
+
+  const toggleProhibitedClass = (label: string, enabled: boolean) => {
+    const classes = config.objects.prohibitedClasses.filter((name) => name !== label);
+    updateSetting('objects', { prohibitedClasses: enabled ? [...classes, label] : classes });
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeDetectionConfig(config), 'cheatguardian-settings.json', 'application/json');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(parseDetectionConfig(JSON.parse(await file.text())));
+      toast({
+        title: 'Settings Imported',
+        description: `Detection settings loaded from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import Failed',
+        description: describeConfigError(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detection Settings</DialogTitle>
+          <DialogDescription>
+            Changes apply immediately, including during monitoring, and are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label>Preset</Label>
+          <Select
+            value={preset ?? 'custom'}
+            onValueChange={(value) => {
+              if (value !== 'custom') {
+                onChange(getPresetConfig(value as DetectionPresetId));
+              }
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DETECTION_PRESETS) as DetectionPresetId[]).map((id) => (
+                <SelectItem key={id} value={id}>
+                  {DETECTION_PRESETS[id].label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom" disabled>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {preset ? DETECTION_PRESETS[preset].description : 'Settings have been adjusted by hand.'}
+          </p>
+        </div>
+
+        <Tabs defaultValue="face">
+          <TabsList className="grid grid-cols-4 sm:grid-cols-7 h-auto w-full">
+            {SETTINGS_TABS.map((tab) => (
+              <TabsTrigger key={tab.id} value={tab.id} className="text-xs">
+                {tab.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {SETTINGS_TABS.map((tab) => (
+            <TabsContent key={tab.id} value={tab.id} className="space-y-4 pt-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {tab.settings.map((setting) => (
+                  <NumberField
+                    key={`${setting.section}.${setting.key}`}
+                    setting={setting}
+                    value={config[setting.section][setting.key] as number}
+                    defaultValue={DEFAULT_DETECTION_CONFIG[setting.section][setting.key] as number}
+                    config={config}
+                    onCommit={(value) => updateSetting(setting.section, { [setting.key]: value })}
+                  />
+                ))}
+              </div>
+
+              {tab.id === 'face' && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <Label htmlFor="setting-face-useWorker">Run face detection in a background worker</Label>
+                    <p className="text-xs text-muted-foreground">Keeps the page responsive on slower machines.</p>
+                  </div>
+                  <Switch
+                    id="setting-face-useWorker"
+                    checked={config.face.useWorker}
+                    onCheckedChange={(checked) => updateSetting('face', { useWorker: checked })}
+                  />
+                </div>
+              )}
+
+              {tab.id === 'evidence' && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <Label htmlFor="setting-clips-enabled">Record video clips of incidents</Label>
+                    <p className="text-xs text-muted-foreground">Keeps the last few seconds of video in memory.</p>
+                  </div>
+                  <Switch
+                    id="setting-clips-enabled"
+                    checked={config.clips.enabled}
+                    onCheckedChange={(checked) => updateSetting('clips', { enabled: checked })}
+                  />
+                </div>
+              )}
+
+              {tab.id === 'rules' && (
+                <>
+                  <div className="space-y-2 rounded-md border p-3">
+                    <Label>Detection rules</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Evaluated on every analysed frame, in this order. A matching rule raises its incident once the status timing allows.
+                    </p>
+                    {config.rules.rules.map((rule) => (
+                      <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                          {rule.message}
+                          <span className="text-muted-foreground"> ({CATEGORY_LABELS[rule.category]}, {rule.status})</span>
+                        </span>
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                          aria-label={`Enable rule ${rule.id}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <RuleSetEditor rules={config.rules.rules} onCommit={(rules) => updateSetting('rules', { rules })} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSetting('rules', { rules: DEFAULT_DETECTION_RULES })}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore default rules
+                  </Button>
+                </>
+              )}
+
+              {tab.id === 'identity' && (
+                <div className="space-y-2 rounded-md border p-3">
+                  <Label>Prohibited objects</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {Object.entries(PROHIBITED_OBJECT_NAMES).map(([label, name]) => (
+                      <label key={label} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={config.objects.prohibitedClasses.includes(label)}
+                          onCheckedChange={(checked) => toggleProhibitedClass(label, checked === true)}
+                        />
+                        {name} <span className="text-muted-foreground">({label})</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter className="flex-row flex-wrap gap-2 sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_DETECTION_CONFIG)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                handleImport(event.target.files?.[0]);
+                event.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
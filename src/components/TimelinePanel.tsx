@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import { Activity, ZoomOut } from 'lucide-react';
+import {
+  Brush,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip } from '@/components/ui/chart';
+import EvidenceViewer from '@/components/EvidenceViewer';
+import type { StatusLevel } from '@/utils/detectionUtils';
+import { getSnapshotUrl } from '@/utils/evidenceUtils';
+import { Incident } from '@/utils/incidentUtils';
+import { TimelinePoint, findIncidentAt } from '@/utils/timelineUtils';
+
+// How far from a clicked moment an incident may start and still be opened
+const SCRUB_TOLERANCE = 10000;
+
+const STATUS_COLORS: Record<StatusLevel, string> = {
+  safe: '#10b981',
+  warning: '#f59e0b',
+  danger: '#ef4444',
+};
+
+const chartConfig = {
+  attention: { label: 'Attention', color: '#3b82f6' },
+  volume: { label: 'Volume', color: '#8b5cf6' },
+  faceCount: { label: 'Faces', color: '#64748b' },
+} satisfies ChartConfig;
+
+interface TimelinePanelProps {
+  points: TimelinePoint[];
+  incidents: Incident[];
+  getEvidenceUrl?: (evidenceId: string) => string | null;
+}
+
+interface StatusRun {
+  status: StatusLevel;
+  start: number;
+  end: number;
+}
+
+// Stretches of consecutive points with the same non-safe status
+const getStatusRuns = (points: TimelinePoint[]): StatusRun[] => {
+  const runs: StatusRun[] = [];
+  points.forEach((point, index) => {
+    const end = points[index + 1]?.timestamp ?? point.timestamp;
+    const last = runs[runs.length - 1];
+    if (point.status === 'safe') return;
+    if (last && last.status === point.status && last.end === point.timestamp) {
+      last.end = end;
+    } else {
+      runs.push({ status: point.status, start: point.timestamp, end });
+    }
+  });
+  return runs;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const TimelinePanel = ({ points, incidents, getEvidenceUrl }: TimelinePanelProps) => {
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  const [viewing, setViewing] = useState<Incident | null>(null);
+
+  const data = useMemo(() => points.map((point) => ({
+    ...point,
+    volume: point.volumeLevel === null ? null : Math.round(point.volumeLevel * 100),
+  })), [points]);
+  const statusRuns = useMemo(() => getStatusRuns(points), [points]);
+
+  // Only incidents within the charted session
+  const sessionStart = points[0]?.timestamp ?? 0;
+  const visibleIncidents = useMemo(
+    () => incidents.filter((incident) => incident.startTime >= sessionStart),
+    [incidents, sessionStart]
+  );
+
+  // Zoom is kept as a time span so it survives downsampling of the history
+  const lastIndex = Math.max(points.length - 1, 0);
+  const startIndex = range ? Math.max(points.findIndex((point) => point.timestamp >= range.start), 0) : 0;
+  const endIndex = range
+    ? points.reduce((last, point, index) => point.timestamp <= range.end ? index : last, startIndex)
+    : lastIndex;
+
+  const openEvidenceAt = (time: number) => {
+    const incident = findIncidentAt(visibleIncidents, time, SCRUB_TOLERANCE);
+    if (incident) setViewing(incident);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Session Timeline
+          </h2>
+          <Button variant="ghost" size="sm" disabled={!range} onClick={() => setRange(null)}>
+            <ZoomOut className="h-4 w-4 mr-2" />
+            Reset zoom
+          </Button>
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+          <ComposedChart
+            data={data}
+            margin={{ top: 8, right: 8, bottom: 0, left: -16 }}
+            onClick={(state) => {
+              const timestamp = state?.activePayload?.[0]?.payload?.timestamp;
+              if (typeof timestamp === 'number') openEvidenceAt(timestamp);
+            }}
+            className="cursor-pointer"
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              scale="time"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatTime}
+              minTickGap={40}
+            />
+            <YAxis yAxisId="percent" domain={[0, 100]} tickCount={5} />
+            <YAxis yAxisId="faces" orientation="right" allowDecimals={false} domain={[0, 'dataMax + 1']} hide />
+
+            {statusRuns.map((run) => (
+              <ReferenceArea
+                key={`${run.status}-${run.start}`}
+                yAxisId="percent"
+                x1={run.start}
+                x2={run.end}
+                fill={STATUS_COLORS[run.status]}
+                fillOpacity={0.12}
+                strokeOpacity={0}
+              />
+            ))}
+            {visibleIncidents.map((incident) => (
+              <ReferenceLine
+                key={incident.id}
+                yAxisId="percent"
+                x={incident.startTime}
+                stroke={STATUS_COLORS[incident.severity]}
+                strokeDasharray="3 3"
+              />
+            ))}
+
+            <ChartTooltip
+              content={({ active, payload }) => {
+                const point = payload?.[0]?.payload as (TimelinePoint & { volume: number | null }) | undefined;
+                if (!active || !point) return null;
+                const incident = findIncidentAt(visibleIncidents, point.timestamp, SCRUB_TOLERANCE);
+                const snapshotUrl = incident ? getSnapshotUrl(incident, getEvidenceUrl) : null;
+                return (
+                  <div className="rounded-lg border bg-background p-2 text-xs shadow-xl space-y-1">
+                    <p className="font-medium">{formatTime(point.timestamp)}</p>
+                    <p>Attention {point.attention}%</p>
+                    <p>Faces {point.faceCount}</p>
+                    {point.volume !== null && <p>Volume {point.volume}%</p>}
+                    {incident && (
+                      <div className="border-t pt-1 space-y-1">
+                        <p style={{ color: STATUS_COLORS[incident.severity] }}>{incident.message}</p>
+                        {snapshotUrl && <img src={snapshotUrl} alt="" className="h-16 w-24 rounded object-cover" />}
+                        <p className="text-muted-foreground">Click to view evidence</p>
+                      </div>
+                    )}
+                  </div>
+                );
+              }}
+            />
+
+            <Line
+              yAxisId="percent"
+              dataKey="attention"
+              stroke="var(--color-attention)"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="percent"
+              dataKey="volume"
+              stroke="var(--color-volume)"
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="faces"
+              dataKey="faceCount"
+              type="stepAfter"
+              stroke="var(--color-faceCount)"
+              strokeDasharray="4 2"
+              dot={false}
+              isAnimationActive={false}
+            />
+
+            {points.length > 1 && (
+              <Brush
+                dataKey="timestamp"
+                height={24}
+                startIndex={startIndex}
+                endIndex={endIndex}
+                tickFormatter={formatTime}
+                onChange={({ startIndex: start, endIndex: end }) => {
+                  if (start === undefined || end === undefined) return;
+                  // Back at full width, follow the newest data again
+                  setRange(start === 0 && end === lastIndex
+                    ? null
+                    : { start: points[start].timestamp, end: points[end].timestamp });
+                }}
+              />
+            )}
+          </ComposedChart>
+        </ChartContainer>
+
+        <div className="mt-2 flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {Object.entries(chartConfig).map(([key, item]) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+              {item.label}
+            </span>
+          ))}
+          <span>Dashed markers show incidents · Click the chart to view their evidence · Drag the bar below to zoom</span>
+        </div>
+      </CardContent>
+
+      <EvidenceViewer incident={viewing} onClose={() => setViewing(null)} getEvidenceUrl={getEvidenceUrl} />
+    </Card>
+  );
+};
+
+export default TimelinePanel;
@@ -1,29 +1,101 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Shield, Clipboard, Settings, Github, Mic, MicOff } from 'lucide-react';
+import { Shield, Clipboard, Settings, Github, Mic, MicOff, FileText } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import WebcamFeed from '@/components/WebcamFeed';
 import DetectionStatus from '@/components/DetectionStatus';
-import AlertBox, { Alert } from '@/components/AlertBox';
+import AlertBox from '@/components/AlertBox';
+import CalibrationOverlay from '@/components/CalibrationOverlay';
+import SettingsDialog from '@/components/SettingsDialog';
+import ReportDialog from '@/components/ReportDialog';
+import TimelinePanel from '@/components/TimelinePanel';
 import {
   initializeDetection,
   processVideoFrame,
-  getDetectionStatus,
-  drawDetections
+  drawDetections,
+  getFaceScore,
+  DetectionSignals,
+  FrameAnalysis
 } from '@/utils/detectionUtils';
+import { DetectionSession } from '@/utils/detectionSession';
+import { DetectionScheduler } from '@/utils/detectionScheduler';
+import { CalibrationRecorder, CalibrationStep } from '@/utils/calibrationUtils';
+import { IdentityCheck, IdentityVerifier } from '@/utils/identityUtils';
+import { DetectedObject, ObjectDetector } from '@/utils/objectDetectionUtils';
+import { LivenessAnalyzer, LivenessResult } from '@/utils/livenessUtils';
+import { FrameQuality, FrameQualityAnalyzer } from '@/utils/frameQualityUtils';
+import { StatusMachine } from '@/utils/statusMachine';
+import { RuleEngine, getAudioRuleSignals, getRuleSignals } from '@/utils/ruleEngine';
+import { Incident, upsertIncidents } from '@/utils/incidentUtils';
+import { CapturedFrame, EvidenceItem, EvidenceStore, captureFrame, captureSnapshot } from '@/utils/evidenceUtils';
+import { ClipRecorder } from '@/utils/clipRecorder';
 import {
+  MetricSample,
+  RESUME_WINDOW,
+  SESSION_RETENTION,
+  SessionRecord,
+  SessionStore,
+  StoredSpeechSegment,
+  createReloadIncident,
+  createSessionRecord
+} from '@/utils/sessionStore';
+import { IncidentLog, getKeyFingerprint } from '@/utils/integrityUtils';
+import { RiskAssessment, calculateRiskScore } from '@/utils/riskScore';
+import { TimelineBuffer, TimelinePoint } from '@/utils/timelineUtils';
+import type { MicrophoneIssue } from '@/utils/microphoneHealth';
+import {
+  DetectionConfig,
+  loadDetectionConfig,
+  saveDetectionConfig
+} from '@/utils/detectionConfig';
+import {
+  AudioAnalysis,
+  getAudioAnalysis,
+  getAudioStream,
   initializeAudio,
-  processAudio,
-  stopAudio
+  onAudioAnalysis,
+  stopAudio,
+  updateAudioConfig
 } from '@/utils/audioUtils';
 
+const SAMPLE_INTERVAL = 1000; // ms between metric samples in the session log
+const FLUSH_INTERVAL = 5000; // ms between writes of samples and the heartbeat
+const AUDIO_EVALUATION_INTERVAL = 250; // ms without a video evaluation before audio runs the rules
+
 const Index = () => {
+  // Detection settings, restored from the previous visit
+  const [config, setConfig] = useState<DetectionConfig>(loadDetectionConfig);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  
   // References
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const animationRef = useRef<number | null>(null);
+  const schedulerRef = useRef<DetectionScheduler | null>(null);
+  const detectFrameRef = useRef<() => Promise<boolean>>(async () => false);
+  const handleAudioRef = useRef<(analysis: AudioAnalysis) => void>(() => {});
+  const calibrationRef = useRef<CalibrationRecorder | null>(null);
+  const identityRef = useRef<IdentityVerifier | null>(null);
+  const objectDetectorRef = useRef<ObjectDetector | null>(null);
+  const livenessRef = useRef(new LivenessAnalyzer(config.liveness));
+  const frameQualityRef = useRef(new FrameQualityAnalyzer(config.frameQuality));
+  const ruleEngineRef = useRef(new RuleEngine(config.rules));
+  const statusMachineRef = useRef(new StatusMachine(config.status, config.alerts.dedupeWindow));
+  const evidenceStoreRef = useRef(new EvidenceStore());
+  const clipRecorderRef = useRef(new ClipRecorder(config.clips));
+  const sessionStoreRef = useRef(SessionStore.isSupported() ? new SessionStore() : null);
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const incidentLogRef = useRef<IncidentLog | null>(null);
+  const pendingCapturesRef = useRef(new Set<Promise<void>>());
+  const pendingSamplesRef = useRef<MetricSample[]>([]);
+  const pendingSpeechRef = useRef<StoredSpeechSegment[]>([]);
+  const lastSampleRef = useRef(0);
+  // The latest video measurements, reused while audio drives the evaluation
+  const lastEvaluationRef = useRef(0);
+  const timelineRef = useRef(new TimelineBuffer());
+  const sessionRef = useRef<DetectionSession | null>(null);
+  const configRef = useRef(config);
   
   // Detection state
   const [isDetecting, setIsDetecting] = useState(false);
@@ -34,14 +106,40 @@ const Index = () => {
   const [estimatedAttention, setEstimatedAttention] = useState(100);
   const [detectionStatus, setDetectionStatus] = useState<'safe' | 'warning' | 'danger'>('safe');
   const [statusMessage, setStatusMessage] = useState('Starting detection...');
+  const [analysedFps, setAnalysedFps] = useState(0);
+  const [identity, setIdentity] = useState<IdentityCheck | null>(null);
+  const [prohibitedObjects, setProhibitedObjects] = useState<DetectedObject[]>([]);
+  const [liveness, setLiveness] = useState<LivenessResult | null>(null);
+  const [frameQuality, setFrameQuality] = useState<FrameQuality | null>(null);
+  
+  // Calibration state
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationStep, setCalibrationStep] = useState<CalibrationStep | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState(0);
   
   // Audio detection state
   const [audioEnabled, setAudioEnabled] = useState(false);
-  const [noiseDetected, setNoiseDetected] = useState(false);
+  const [speechDetected, setSpeechDetected] = useState(false);
+  const [audioCalibrating, setAudioCalibrating] = useState(false);
+  const [noiseFloor, setNoiseFloor] = useState<number | null>(null);
+  const [voiceCount, setVoiceCount] = useState(0);
+  const [microphoneIssue, setMicrophoneIssue] = useState<MicrophoneIssue | null>(null);
   const [volumeLevel, setVolumeLevel] = useState(0);
   
-  // Alerts state
-  const [alerts, setAlerts] = useState<Alert[]>([]);
+  // Incidents raised so far, newest first
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [dismissedIncidents, setDismissedIncidents] = useState<Set<string>>(new Set());
+  // Incidents restored with a resumed session, not announced again
+  const [announcedIncidents, setAnnouncedIncidents] = useState<Incident[]>([]);
+  const [risk, setRisk] = useState<RiskAssessment | null>(null);
+  const [timeline, setTimeline] = useState<TimelinePoint[]>([]);
+  
+  // Session interrupted by a reload, restarted once the model is ready
+  const [resumedSession, setResumedSession] = useState<SessionRecord | null>(null);
+  
+  // Last finished session, offered for export once monitoring stops
+  const [reportSessionId, setReportSessionId] = useState<string | null>(null);
+  const [reportOpen, setReportOpen] = useState(false);
   
   // Handle setting video element ref from WebcamFeed
   const handleVideoElement = useCallback((element: HTMLVideoElement | null) => {
@@ -53,11 +151,19 @@ const Index = () => {
     canvasRef.current = canvas;
   }, []);
   
-  // Initialize detection model
+  // Create the detection session and load its model
   useEffect(() => {
+    const session = new DetectionSession(configRef.current.face);
+    sessionRef.current = session;
+    const verifier = new IdentityVerifier(configRef.current.identity);
+    identityRef.current = verifier;
+    const objectDetector = new ObjectDetector(configRef.current.objects);
+    objectDetectorRef.current = objectDetector;
+    
     const loadModel = async () => {
       try {
-        await initializeDetection();
+        await initializeDetection(session);
+        if (session.isDisposed) return;
         setIsModelLoaded(true);
         toast({
           title: 'Detection Model Loaded',
@@ -73,9 +179,79 @@ const Index = () => {
       }
     };
     
+    // Identity checks are optional; monitoring works without them
+    const loadIdentityModel = async () => {
+      try {
+        await verifier.initialize();
+      } catch (error) {
+        console.error('Error loading face recognition model:', error);
+        toast({
+          title: 'Identity Verification Unavailable',
+          description: 'Could not load the face recognition model. Identity will not be checked.',
+          variant: 'destructive',
+        });
+      }
+    };
+    
+    // Object detection is optional as well
+    const loadObjectModel = async () => {
+      try {
+        await objectDetector.initialize();
+      } catch (error) {
+        console.error('Error loading object detection model:', error);
+        toast({
+          title: 'Object Detection Unavailable',
+          description: 'Could not load the object detection model. Phones and books will not be detected.',
+          variant: 'destructive',
+        });
+      }
+    };
+    
     loadModel();
+    loadIdentityModel();
+    loadObjectModel();
+    
+    return () => {
+      session.dispose();
+      verifier.dispose();
+      objectDetector.dispose();
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+      }
+      if (identityRef.current === verifier) {
+        identityRef.current = null;
+      }
+      if (objectDetectorRef.current === objectDetector) {
+        objectDetectorRef.current = null;
+      }
+      setIsModelLoaded(false);
+    };
   }, []);
   
+  // Apply settings changes to the running pipeline and remember them
+  useEffect(() => {
+    configRef.current = config;
+    saveDetectionConfig(config);
+    
+    sessionRef.current?.updateConfig(config.face).catch((error) => {
+      console.error('Error reloading detection model:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to apply the new face detection settings.',
+        variant: 'destructive',
+      });
+    });
+    identityRef.current?.updateConfig(config.identity);
+    objectDetectorRef.current?.updateConfig(config.objects);
+    livenessRef.current.updateConfig(config.liveness);
+    frameQualityRef.current.updateConfig(config.frameQuality);
+    ruleEngineRef.current.updateConfig(config.rules);
+    statusMachineRef.current.updateConfig(config.status, config.alerts.dedupeWindow);
+    clipRecorderRef.current.updateConfig(config.clips);
+    schedulerRef.current?.updateConfig(config.scheduler);
+    updateAudioConfig(config.audio);
+  }, [config]);
+  
   // Initialize audio detection
   const toggleAudio = async () => {
     if (audioEnabled) {
@@ -86,130 +262,493 @@ const Index = () => {
         description: 'Audio detection has been turned off.',
       });
     } else {
-      const initialized = await initializeAudio();
+      const initialized = await initializeAudio(config.audio);
       setAudioEnabled(initialized);
       if (initialized) {
         toast({
           title: 'Audio Monitoring Enabled',
-          description: 'The system will now detect suspicious sounds.',
+          description: 'Measuring the background noise for a few seconds, then detecting when someone is talking.',
         });
       }
     }
   };
   
-  // Start or stop detection loop
-  useEffect(() => {
-    const detectFrame = async () => {
-      if (!videoRef.current || !isDetecting || !isModelLoaded) return;
+  // Save incident changes to the session log and append them to the signed
+  // incident log; a storage failure never stops monitoring
+  const persistIncidents = (updates: Incident[], sessionId = sessionRecordRef.current?.id) => {
+    if (!sessionId || updates.length === 0) return;
+    sessionStoreRef.current?.saveIncidents(sessionId, updates).catch((error) => {
+      console.error('Error saving incidents:', error);
+    });
+    const log = incidentLogRef.current;
+    if (log?.sessionId === sessionId) {
+      updates.forEach((incident) => log.append(incident).catch((error) => {
+        console.error('Error appending to incident log:', error);
+      }));
+    }
+  };
+  
+  // Evidence captures still in progress, waited for before a session is closed
+  const trackCapture = (capture: Promise<void>) => {
+    const pending = pendingCapturesRef.current;
+    pending.add(capture);
+    capture.finally(() => pending.delete(capture));
+  };
+  
+  // Show incident changes in the list and log them
+  const recordIncidents = (updates: Incident[], sessionId = sessionRecordRef.current?.id) => {
+    if (updates.length === 0) return;
+    setIncidents(prev => upsertIncidents(prev, updates));
+    persistIncidents(updates, sessionId);
+  };
+  
+  const persistEvidence = async (item: EvidenceItem, sessionId: string | undefined) => {
+    if (!sessionId) return;
+    try {
+      await sessionStoreRef.current?.saveEvidence(sessionId, item);
+    } catch (error) {
+      console.error('Error saving evidence:', error);
+    }
+  };
+  
+  // Keep the newest snapshots of the session, in memory and in the session log
+  const limitSnapshotStorage = async (sessionId: string | undefined) => {
+    const { maxSnapshots } = configRef.current.evidence;
+    evidenceStoreRef.current.limitSnapshots(maxSnapshots);
+    if (!sessionId) return;
+    try {
+      await sessionStoreRef.current?.limitSnapshots(sessionId, maxSnapshots);
+    } catch (error) {
+      console.error('Error removing old snapshots:', error);
+    }
+  };
+  
+  // Keep saved clips, in memory and in the session log, within the storage budget
+  const limitClipStorage = async () => {
+    const maxBytes = configRef.current.clips.maxStoredMegabytes * 1024 * 1024;
+    evidenceStoreRef.current.limitClipBytes(maxBytes);
+    try {
+      await sessionStoreRef.current?.limitClipBytes(maxBytes);
+    } catch (error) {
+      console.error('Error removing old clips:', error);
+    }
+  };
+  
+  // Keep the enrolled face with the session once enrollment completes, so a reload resumes checking against it
+  const saveEnrollment = () => {
+    const record = sessionRecordRef.current;
+    const enrollment = identityRef.current?.getEnrollment() ?? null;
+    if (!record || record.enrollment || !enrollment) return;
+    record.enrollment = enrollment;
+    sessionStoreRef.current?.updateSession(record.id, { enrollment }).catch((error) => {
+      console.error('Error saving identity enrollment:', error);
+    });
+  };
+  
+  // Write buffered metric samples, speech segments and a heartbeat so a reload can be detected and resumed
+  const flushSessionLog = async () => {
+    const store = sessionStoreRef.current;
+    const record = sessionRecordRef.current;
+    if (!store || !record) return;
+    
+    const samples = pendingSamplesRef.current;
+    pendingSamplesRef.current = [];
+    const speech = pendingSpeechRef.current;
+    pendingSpeechRef.current = [];
+    record.lastHeartbeat = Date.now();
+    try {
+      await Promise.all([
+        store.addSamples(samples),
+        store.addSpeechSegments(speech),
+        store.updateSession(record.id, { lastHeartbeat: record.lastHeartbeat }),
+      ]);
+    } catch (error) {
+      console.error('Error saving session log:', error);
+    }
+  };
+  
+  // Mark the logged session as completed once its last evidence is saved
+  const endSessionLog = async () => {
+    const record = sessionRecordRef.current;
+    const log = incidentLogRef.current;
+    if (!record) return;
+    await Promise.all(Array.from(pendingCapturesRef.current));
+    await flushSessionLog();
+    // Monitoring may have been restarted in the meantime
+    if (sessionRecordRef.current === record) sessionRecordRef.current = null;
+    if (incidentLogRef.current === log) incidentLogRef.current = null;
+    const now = Date.now();
+    try {
+      await log?.close(now);
+    } catch (error) {
+      console.error('Error closing incident log:', error);
+    }
+    try {
+      await sessionStoreRef.current?.updateSession(record.id, { state: 'completed', endTime: now, lastHeartbeat: now });
+      setReportSessionId(record.id);
+    } catch (error) {
+      console.error('Error closing session log:', error);
+    }
+  };
+  
+  // Begin a monitoring run with clean tracking history, or continue one interrupted by a reload
+  const startMonitoring = (resumed: SessionRecord | null = null) => {
+    sessionRef.current?.reset();
+    livenessRef.current.reset();
+    frameQualityRef.current.reset();
+    statusMachineRef.current.reset();
+    pendingSamplesRef.current = [];
+    pendingSpeechRef.current = [];
+    lastSampleRef.current = 0;
+    schedulerRef.current?.takeCoverage(); // Calibration frames are not part of the session
+    setRisk(null);
+    setIdentity(null);
+    
+    if (resumed) {
+      sessionRecordRef.current = resumed;
+      ruleEngineRef.current.reset(resumed.startTime);
+      if (resumed.baseline) {
+        sessionRef.current?.setBaseline(resumed.baseline);
+      }
+      // Keep checking against the face enrolled before the reload
+      identityRef.current?.restoreEnrollment(resumed.enrollment ?? null);
+    } else {
+      identityRef.current?.reset();
+      timelineRef.current.reset();
+      setTimeline([]);
+      const record = createSessionRecord(configRef.current, sessionRef.current?.baseline ?? null);
+      sessionRecordRef.current = record;
+      ruleEngineRef.current.reset(record.startTime);
+      const store = sessionStoreRef.current;
+      store?.saveSession(record).catch((error) => {
+        console.error('Error saving session:', error);
+      });
       
-      try {
-        // Process video frame
-        const results = await processVideoFrame(videoRef.current);
-        
-        // Update state with detection results
+      // Sign the incident log with a key pair made for this session; reports
+      // are only trusted against a fingerprint recorded outside this browser
+      if (store && IncidentLog.isSupported()) {
+        const log = new IncidentLog(store, record.id);
+        incidentLogRef.current = log;
+        log.start(record.startTime)
+          .then(getKeyFingerprint)
+          .then((fingerprint) => {
+            toast({
+              title: 'Incident Log Signed',
+              description: `Key fingerprint ${fingerprint}. Record it outside this browser to verify the report later.`,
+            });
+          })
+          .catch((error) => {
+            console.error('Error starting incident log:', error);
+          });
+      }
+    }
+    
+    setIsDetecting(true);
+    toast(resumed ? {
+      title: 'Session Resumed',
+      description: 'Monitoring continues where it stopped. The reload has been recorded.',
+    } : {
+      title: 'Detection Started',
+      description: 'The system is now monitoring for suspicious activity.',
+    });
+  };
+  
+  // Finish calibration, keeping the baseline if enough frames were collected
+  const finishCalibration = (skipped: boolean) => {
+    const recorder = calibrationRef.current;
+    calibrationRef.current = null;
+    setIsCalibrating(false);
+    
+    if (!skipped && recorder) {
+      const baseline = recorder.computeBaseline();
+      if (baseline) {
+        sessionRef.current?.setBaseline(baseline);
+        toast({
+          title: 'Calibration Complete',
+          description: 'Detection thresholds are now tuned to your position.',
+        });
+      } else {
+        toast({
+          title: 'Calibration Failed',
+          description: 'Your face was not visible long enough. Default thresholds will be used.',
+          variant: 'destructive',
+        });
+      }
+    }
+    
+    startMonitoring();
+  };
+  
+  // Encode the frame that triggered the incident, with the face boxes drawn
+  // in, and attach it to the incident
+  const captureEvidence = async (
+    incident: Incident,
+    frame: CapturedFrame,
+    predictions: FrameAnalysis['predictions']
+  ) => {
+    const sessionId = sessionRecordRef.current?.id;
+    try {
+      const blob = await captureSnapshot(frame, predictions, config.evidence);
+      if (!blob) return;
+      const item = evidenceStoreRef.current.add(incident.id, 'snapshot', blob);
+      await persistEvidence(item, sessionId);
+      await limitSnapshotStorage(sessionId);
+      const updated = statusMachineRef.current.attachEvidence(incident.id, { kind: 'snapshot', id: item.id });
+      if (updated) {
+        recordIncidents([updated], sessionId);
+      }
+    } catch (error) {
+      console.error('Error capturing evidence snapshot:', error);
+    }
+  };
+  
+  // Save the recording around the start of the incident once its post-roll has been recorded
+  const captureClip = async (incident: Incident) => {
+    const recorder = clipRecorderRef.current;
+    if (!recorder.isRecording) return;
+    
+    const sessionId = sessionRecordRef.current?.id;
+    try {
+      const segments = await recorder.requestClip(incident.startTime);
+      if (segments.length === 0) return;
+      const store = evidenceStoreRef.current;
+      // Segments already saved for an overlapping incident are shared, not stored twice
+      const added: EvidenceItem[] = [];
+      const items = segments.map((segment) => {
+        const saved = store.findClip(segment.startTime, segment.endTime);
+        if (saved) return saved;
+        const item = store.add(incident.id, 'clip', segment.blob, {
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+        });
+        added.push(item);
+        return item;
+      });
+      const refs = items.map((item) => ({ kind: item.kind, id: item.id }));
+      await Promise.all(added.map((item) => persistEvidence(item, sessionId)));
+      await limitClipStorage();
+      const updated = statusMachineRef.current.attachEvidence(incident.id, ...refs);
+      if (updated) {
+        recordIncidents([updated], sessionId);
+      }
+    } catch (error) {
+      console.error('Error saving incident clip:', error);
+    }
+  };
+  
+  // Run the detection rules and record what they find. Each analysed video
+  // frame does this; audio results do it too while the video loop is behind,
+  // without a frame, so only rules that need no video run and the categories
+  // that need video keep their state until the next frame.
+  const evaluateSignals = (
+    session: DetectionSession,
+    frame: { results: FrameAnalysis; signals: DetectionSignals; capture: CapturedFrame | null } | null
+  ) => {
+    lastEvaluationRef.current = Date.now();
+    const audioResults = audioEnabled ? getAudioAnalysis() : null;
+    const ruleEngine = ruleEngineRef.current;
+    const conditions = frame
+      ? ruleEngine.evaluate(getRuleSignals(session, { ...frame.signals, audio: audioResults }))
+      : ruleEngine.evaluateAudio(getAudioRuleSignals(audioResults));
+    
+    // Only conditions that last long enough change the status
+    const status = frame
+      ? statusMachineRef.current.update(conditions)
+      : statusMachineRef.current.update(conditions, undefined, ruleEngine.getAudioCategories());
+    setDetectionStatus(status.status);
+    setStatusMessage(status.message);
+    
+    // Record new, escalated, updated and finished incidents
+    recordIncidents(status.changed);
+    
+    // Re-score the whole session, letting older incidents fade
+    const sessionStart = sessionRecordRef.current?.startTime ?? 0;
+    const sessionIncidents = upsertIncidents(incidents, status.changed)
+      .filter((incident) => incident.startTime >= sessionStart);
+    setRisk(calculateRiskScore(sessionIncidents, config.riskWeights, config.risk));
+    
+    // Sample the live metrics for the session log about once a second, from video frames only
+    const now = Date.now();
+    if (frame && sessionRecordRef.current && now - lastSampleRef.current >= SAMPLE_INTERVAL) {
+      const { results } = frame;
+      lastSampleRef.current = now;
+      const sample: MetricSample = {
+        sessionId: sessionRecordRef.current.id,
+        timestamp: now,
+        status: status.status,
+        attention: results.estimatedAttention,
+        faceCount: results.faceCount,
+        lookingAway: results.lookingAway,
+        volumeLevel: audioResults?.volumeLevel ?? null,
+        ...(schedulerRef.current?.takeCoverage() ?? { framesAnalysed: 0, framesDropped: 0, hidden: false }),
+      };
+      pendingSamplesRef.current.push(sample);
+      timelineRef.current.add(sample);
+      setTimeline(timelineRef.current.getPoints());
+    }
+    
+    // Keep a still of the frame that triggered each new incident, and a clip
+    // around it. Without a video frame the still is taken now.
+    const capture = frame
+      ? frame.capture
+      : status.started.length > 0 && videoRef.current ? captureFrame(videoRef.current, config.evidence) : null;
+    status.started.forEach((incident) => {
+      if (capture) {
+        trackCapture(captureEvidence(incident, capture, frame?.results.predictions ?? []));
+      }
+      trackCapture(captureClip(incident));
+    });
+  };
+  
+  // Show audio results as they arrive, and keep the rules running on them
+  // when video frames stop coming
+  const handleAudio = (analysis: AudioAnalysis) => {
+    setSpeechDetected(analysis.speechDetected);
+    setVolumeLevel(analysis.volumeLevel);
+    setAudioCalibrating(analysis.calibrating);
+    setNoiseFloor(analysis.noiseFloor);
+    setVoiceCount(analysis.voices.voiceCount);
+    setMicrophoneIssue(analysis.microphone.issue);
+    
+    // Keep finished speech segments for the session log
+    const record = sessionRecordRef.current;
+    if (isDetecting && record && analysis.ended && analysis.ended.end !== null) {
+      pendingSpeechRef.current.push({ ...analysis.ended, end: analysis.ended.end, sessionId: record.id });
+    }
+    
+    const session = sessionRef.current;
+    if (!isDetecting || !session) return;
+    if (Date.now() - lastEvaluationRef.current < AUDIO_EVALUATION_INTERVAL) return;
+    evaluateSignals(session, null);
+  };
+  
+  // Analyse one frame; resolves to false if the frame was dropped
+  const detectFrame = async (): Promise<boolean> => {
+    const session = sessionRef.current;
+    if (!videoRef.current || !session || !isModelLoaded) return false;
+    if (!isDetecting && !isCalibrating) return false;
+    
+    try {
+      // Copy the frame before analysing it, so evidence shows the frame the results are for
+      const capture = isDetecting ? captureFrame(videoRef.current, config.evidence) : null;
+      
+      // Process video frame
+      const results = await processVideoFrame(session, videoRef.current);
+      
+      // Skip frames dropped while the inference worker was busy or being replaced
+      if (!results) return false;
+      
+      // During calibration frames only feed the baseline
+      const recorder = calibrationRef.current;
+      if (isCalibrating && recorder) {
+        recorder.addFrame(results);
         setFacePresent(results.facePresent);
-        setFaceCount(results.faceCount);
-        setLookingAway(results.lookingAway);
-        setEstimatedAttention(results.estimatedAttention);
-        
-        // Process audio if enabled
-        if (audioEnabled) {
-          const audioResults = processAudio();
-          setNoiseDetected(audioResults.noiseDetected);
-          setVolumeLevel(audioResults.volumeLevel);
-          
-          // Add alert for suspicious audio
-          if (audioResults.noiseDetected) {
-            const shouldAddAlert = !alerts.some(
-              alert => alert.message === 'Suspicious sounds detected' && 
-                      (new Date().getTime() - alert.timestamp.getTime()) < 10000
-            );
-            
-            if (shouldAddAlert) {
-              setAlerts(prev => [
-                {
-                  id: `alert-${Date.now()}`,
-                  message: 'Suspicious sounds detected',
-                  type: 'warning',
-                  timestamp: new Date()
-                },
-                ...prev
-              ]);
-            }
-          }
+        setCalibrationStep(recorder.getCurrentStep());
+        setCalibrationProgress(recorder.getProgress());
+        if (recorder.isComplete()) {
+          finishCalibration(false);
         }
-        
-        // Determine overall detection status
-        let status = getDetectionStatus(
-          results.facePresent,
-          results.faceCount,
-          results.lookingAway
+        return true;
+      }
+      
+      // Update state with detection results
+      setFacePresent(results.facePresent);
+      setFaceCount(results.faceCount);
+      setLookingAway(results.lookingAway);
+      setEstimatedAttention(results.estimatedAttention);
+      
+      // Enroll the student's face, then keep checking it is the same person
+      let identityCheck: IdentityCheck | null = null;
+      if (identityRef.current?.isReady && videoRef.current) {
+        identityCheck = await identityRef.current.update(videoRef.current, results);
+        setIdentity(identityCheck);
+        saveEnrollment();
+      }
+      
+      // Check the camera can actually see: not covered, dark, blurred or frozen
+      const qualityResult = videoRef.current
+        ? frameQualityRef.current.analyze(videoRef.current)
+        : null;
+      setFrameQuality(qualityResult);
+      
+      // Check the feed is a live person rather than a photo or a recording
+      const livenessResult = videoRef.current
+        ? livenessRef.current.update(videoRef.current, results)
+        : null;
+      setLiveness(livenessResult);
+      
+      // Look for phones, books and second screens at a lower cadence
+      let detectedProhibited: DetectedObject[] = [];
+      if (objectDetectorRef.current?.isReady && videoRef.current) {
+        const objectResult = await objectDetectorRef.current.detect(videoRef.current);
+        detectedProhibited = objectResult?.prohibited ?? [];
+        setProhibitedObjects(detectedProhibited);
+      }
+      
+      // Evaluate the detection rules against everything measured in this frame
+      const signals: DetectionSignals = {
+        facePresent: results.facePresent,
+        faceCount: results.faceCount,
+        lookingAway: results.lookingAway,
+        faceScores: results.predictions?.map(getFaceScore) ?? [],
+        headPose: results.headPose,
+        identity: identityCheck,
+        prohibitedObjects: detectedProhibited,
+        liveness: livenessResult,
+        frameQuality: qualityResult,
+      };
+      evaluateSignals(session, { results, signals, capture });
+      
+      // Draw detections on canvas
+      if (canvasRef.current && results.predictions) {
+        drawDetections(
+          canvasRef.current,
+          results.predictions,
+          videoRef.current.videoWidth,
+          videoRef.current.videoHeight
         );
-        
-        // Update status if audio problems detected
-        if (audioEnabled && noiseDetected && status.status === 'safe') {
-          status = {
-            status: 'warning',
-            message: 'Suspicious audio detected'
-          };
-        }
-        
-        setDetectionStatus(status.status);
-        setStatusMessage(status.message);
-        
-        // Add alerts for suspicious activities
-        if (status.status === 'danger' || status.status === 'warning') {
-          const shouldAddAlert = !alerts.some(
-            alert => alert.message === status.message && 
-                    (new Date().getTime() - alert.timestamp.getTime()) < 10000
-          );
-          
-          if (shouldAddAlert) {
-            setAlerts(prev => [
-              {
-                id: `alert-${Date.now()}`,
-                message: status.message,
-                type: status.status,
-                timestamp: new Date()
-              },
-              ...prev
-            ]);
-          }
-        }
-        
-        // Draw detections on canvas
-        if (canvasRef.current && results.predictions) {
-          drawDetections(
-            canvasRef.current,
-            results.predictions,
-            videoRef.current.videoWidth,
-            videoRef.current.videoHeight
-          );
-        }
-      } catch (error) {
-        console.error('Error in detection loop:', error);
       }
       
-      // Schedule next frame
-      animationRef.current = requestAnimationFrame(detectFrame);
-    };
-    
-    if (isDetecting && isModelLoaded) {
-      detectFrame();
-    } else if (!isDetecting && animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+      setAnalysedFps(schedulerRef.current?.analysedFps ?? 0);
+      return true;
+    } catch (error) {
+      console.error('Error in detection loop:', error);
+      return false;
     }
+  };
+  
+  // Keep the scheduler and audio subscription pointed at the latest render's state
+  useEffect(() => {
+    detectFrameRef.current = detectFrame;
+    handleAudioRef.current = handleAudio;
+  });
+  
+  // Follow audio analysis, which runs on its own clock
+  useEffect(() => {
+    if (!audioEnabled) return;
+    return onAudioAnalysis((analysis) => handleAudioRef.current(analysis));
+  }, [audioEnabled]);
+  
+  // Start or stop the detection scheduler
+  const isSampling = isDetecting || isCalibrating;
+  useEffect(() => {
+    if (!isSampling || !isModelLoaded) return;
+    
+    const scheduler = new DetectionScheduler(() => detectFrameRef.current(), configRef.current.scheduler);
+    schedulerRef.current = scheduler;
+    scheduler.start();
     
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
+      scheduler.stop();
+      if (schedulerRef.current === scheduler) {
+        schedulerRef.current = null;
       }
     };
-  }, [isDetecting, isModelLoaded, audioEnabled, noiseDetected, alerts]);
+  }, [isSampling, isModelLoaded]);
   
-  // Handle dismissing an alert
-  const dismissAlert = (id: string) => {
-    setAlerts(prev => prev.filter(alert => alert.id !== id));
+  // Hide an incident from the list; it stays part of the session record
+  const dismissIncident = (id: string) => {
+    setDismissedIncidents(prev => new Set(prev).add(id));
   };
   
   // Toggle detection
@@ -222,14 +761,26 @@ const Index = () => {
       return;
     }
     
-    setIsDetecting(prev => !prev);
+    if (isCalibrating) return;
     
     if (!isDetecting) {
-      toast({
-        title: 'Detection Started',
-        description: 'The system is now monitoring for suspicious activity.',
-      });
+      // Learn the student's neutral position before the first run
+      if (!sessionRef.current?.baseline) {
+        const recorder = new CalibrationRecorder();
+        recorder.start();
+        calibrationRef.current = recorder;
+        setCalibrationStep(recorder.getCurrentStep());
+        setCalibrationProgress(0);
+        setIsCalibrating(true);
+      } else {
+        startMonitoring();
+      }
     } else {
+      setIsDetecting(false);
+      // Close any incident that was still in progress
+      const ended = statusMachineRef.current.finish();
+      recordIncidents(ended);
+      endSessionLog();
       toast({
         title: 'Detection Paused',
         description: 'Monitoring is currently paused.',
@@ -242,6 +793,166 @@ const Index = () => {
     }
   };
   
+  // Write the session log periodically while monitoring, and once more if the page goes away
+  useEffect(() => {
+    if (!isDetecting) return;
+    
+    const flush = () => {
+      flushSessionLog();
+    };
+    const timer = setInterval(flush, FLUSH_INTERVAL);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [isDetecting]);
+  
+  // Look for a session that was still monitoring when the page was last closed or reloaded
+  useEffect(() => {
+    const store = sessionStoreRef.current;
+    if (!store) {
+      toast({
+        title: 'Session Log Unavailable',
+        description: 'This browser cannot store the session log. Incidents will be lost if the page is reloaded.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    
+    let cancelled = false;
+    const restoreSession = async () => {
+      try {
+        // Drop sessions past their retention period before anything is read
+        const now = Date.now();
+        await store.deleteSessionsBefore(now - SESSION_RETENTION);
+        const active = await store.getActiveSession();
+        if (cancelled) return;
+        
+        // Too long ago to be a reload; close it as it was left
+        if (active && now - active.lastHeartbeat > RESUME_WINDOW) {
+          await store.updateSession(active.id, { state: 'interrupted', endTime: active.lastHeartbeat });
+          await store.deleteSigningKey(active.id);
+        }
+        if (!active || now - active.lastHeartbeat > RESUME_WINDOW) {
+          // Offer the report of the most recent session
+          const [latest] = await store.listSessions();
+          if (latest && !cancelled) setReportSessionId(latest.id);
+          return;
+        }
+        
+        const [stored, evidence, samples] = await Promise.all([
+          store.getIncidents(active.id),
+          store.getSessionEvidence(active.id),
+          store.getSamples(active.id),
+        ]);
+        if (cancelled) return;
+        
+        // Continue the signed log. Incidents and log entries are separate
+        // writes, so a reload can cut off either one; incidents the log
+        // recorded but the store missed are taken from the log.
+        let log: IncidentLog | null = null;
+        let saved: Incident[] = stored;
+        if (IncidentLog.isSupported()) {
+          log = new IncidentLog(store, active.id);
+          try {
+            const logged = await log.resume();
+            saved = [...stored, ...logged.filter((incident) => !stored.some((item) => item.id === incident.id))];
+          } catch (error) {
+            console.error('Error resuming incident log:', error);
+            log = null;
+          }
+        }
+        if (cancelled) return;
+        
+        // Incidents still open when the page went away ended with it
+        const restored = saved.map((incident) => (
+          incident.endTime === null ? { ...incident, endTime: active.lastHeartbeat } : incident
+        ));
+        const reloadIncident = createReloadIncident(active, now);
+        const resumed: SessionRecord = { ...active, lastHeartbeat: now, reloadCount: active.reloadCount + 1 };
+        await store.saveSession(resumed);
+        await store.saveIncidents(resumed.id, [...restored, reloadIncident]);
+        
+        // Bring the log level with the store, recording the reload in it as well
+        if (log) {
+          incidentLogRef.current = log;
+          log.appendChanged([...restored, reloadIncident], now).catch((error) => {
+            console.error('Error appending to incident log:', error);
+          });
+        }
+        
+        evidence.forEach((item) => evidenceStoreRef.current.restore(item));
+        await limitClipStorage();
+        if (cancelled) return;
+        // Incidents from before the reload were announced then
+        setAnnouncedIncidents(restored);
+        setIncidents(upsertIncidents([], [...restored, reloadIncident]));
+        
+        // Rebuild the timeline from the samples written before the reload
+        const timelineBuffer = timelineRef.current;
+        timelineBuffer.reset();
+        samples.forEach((sample) => timelineBuffer.add(sample));
+        setTimeline(timelineBuffer.getPoints());
+        setResumedSession(resumed);
+      } catch (error) {
+        console.error('Error restoring session:', error);
+        toast({
+          title: 'Session Log Unavailable',
+          description: 'Could not read the saved session log. Incidents will be lost if the page is reloaded.',
+          variant: 'destructive',
+        });
+      }
+    };
+    
+    restoreSession();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  
+  // Restart an interrupted session as soon as detection can run
+  useEffect(() => {
+    if (!resumedSession || !isModelLoaded) return;
+    setResumedSession(null);
+    startMonitoring(resumedSession);
+  }, [resumedSession, isModelLoaded]);
+  
+  // Camera and, when enabled, microphone streams for clip recording
+  const getRecordingStreams = () => {
+    const videoStream = videoRef.current?.srcObject as MediaStream | null;
+    return [videoStream, getAudioStream()].filter((stream): stream is MediaStream => Boolean(stream));
+  };
+  
+  // Keep a rolling recording in memory while monitoring
+  useEffect(() => {
+    if (!isDetecting || !config.clips.enabled) return;
+    
+    const recorder = clipRecorderRef.current;
+    recorder.start(getRecordingStreams());
+    return () => recorder.stop();
+  }, [isDetecting, config.clips.enabled]);
+  
+  // Include or drop the microphone when audio monitoring is toggled
+  useEffect(() => {
+    const recorder = clipRecorderRef.current;
+    if (recorder.isRecording) {
+      recorder.setStreams(getRecordingStreams());
+    }
+  }, [audioEnabled]);
+  
+  // Release captured evidence when the page goes away
+  useEffect(() => {
+    const evidenceStore = evidenceStoreRef.current;
+    const clipRecorder = clipRecorderRef.current;
+    const sessionStore = sessionStoreRef.current;
+    return () => {
+      clipRecorder.dispose();
+      evidenceStore.dispose();
+      sessionStore?.close();
+    };
+  }, []);
+  
   // Clean up resources when component unmounts
   useEffect(() => {
     return () => {
@@ -253,6 +964,30 @@ const Index = () => {
   
   return (
     <div className="min-h-screen bg-gray-50">
+      {isCalibrating && (
+        <CalibrationOverlay
+          step={calibrationStep}
+          progress={calibrationProgress}
+          faceVisible={facePresent}
+          onSkip={() => finishCalibration(true)}
+        />
+      )}
+      
+      <SettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        config={config}
+        onChange={setConfig}
+      />
+      
+      <ReportDialog
+        open={reportOpen}
+        onOpenChange={setReportOpen}
+        store={sessionStoreRef.current}
+        sessionId={reportSessionId}
+        onDeleted={() => setReportSessionId(null)}
+      />
+      
       {/* Header */}
       <header className="bg-white border-b shadow-sm">
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -290,7 +1025,13 @@ const Index = () => {
                 )}
               </Button>
             )}
-            <Button variant="outline" size="sm">
+            {!isDetecting && reportSessionId && (
+              <Button variant="outline" size="sm" onClick={() => setReportOpen(true)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Report
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setSettingsOpen(true)}>
               <Settings className="h-4 w-4 mr-2" />
               Settings
             </Button>
@@ -348,7 +1089,20 @@ const Index = () => {
               </CardContent>
             </Card>
             
-            <AlertBox alerts={alerts} onDismiss={dismissAlert} />
+            {timeline.length > 0 && (
+              <TimelinePanel
+                points={timeline}
+                incidents={incidents}
+                getEvidenceUrl={(id) => evidenceStoreRef.current.getUrl(id)}
+              />
+            )}
+            
+            <AlertBox
+              incidents={incidents.filter(incident => !dismissedIncidents.has(incident.id))}
+              onDismiss={dismissIncident}
+              getEvidenceUrl={(id) => evidenceStoreRef.current.getUrl(id)}
+              announced={announcedIncidents}
+            />
           </div>
           
           {/* Right column - Status and metrics */}
@@ -358,8 +1112,18 @@ const Index = () => {
               faceCount={faceCount}
               lookingAway={lookingAway}
               estimatedAttention={estimatedAttention}
-              noiseDetected={audioEnabled ? noiseDetected : undefined}
+              identity={isDetecting ? identity : undefined}
+              prohibitedObjects={isDetecting ? prohibitedObjects : undefined}
+              liveness={isDetecting ? liveness : undefined}
+              frameQuality={isDetecting ? frameQuality : undefined}
+              analysedFps={isDetecting ? analysedFps : undefined}
+              speechDetected={audioEnabled ? speechDetected : undefined}
+              audioCalibrating={audioEnabled ? audioCalibrating : undefined}
+              noiseFloor={audioEnabled ? noiseFloor : undefined}
+              voiceCount={audioEnabled ? voiceCount : undefined}
+              microphoneIssue={audioEnabled ? microphoneIssue : undefined}
               volumeLevel={audioEnabled ? volumeLevel : undefined}
+              risk={risk}
               status={detectionStatus}
               statusMessage={statusMessage}
             />
@@ -381,14 +1145,18 @@ const Index = () => {
                     <ul className="list-disc list-inside space-y-1 text-muted-foreground">
                       <li>Multiple faces in the webcam view</li>
                       <li>Face disappearance from the frame</li>
-                      <li>Frequent looking away from the screen</li>
+                      <li>Head turned away from the screen</li>
                       <li>Unusual head movements</li>
-                      {audioEnabled && <li>Suspicious sounds or conversations</li>}
+                      <li>Phones, books and second screens</li>
+                      <li>Photos or recordings in place of a live camera</li>
+                      <li>Covered, darkened, blurred or frozen camera</li>
+                      <li>Page reloads during the exam</li>
+                      {audioEnabled && <li>Talking or conversations</li>}
                     </ul>
                   </div>
                   
                   <p className="text-muted-foreground">
-                    All processing happens locally in your browser - no video or audio is uploaded or stored.
+                    All processing happens locally in your browser - no video or audio is uploaded. Snapshots and short clips of incidents stay in this browser.
                   </p>
                 </div>
               </CardContent>
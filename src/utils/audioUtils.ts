@@ -1,42 +1,239 @@
 import { toast } from '@/components/ui/use-toast';
+import audioWorkletUrl from '@/workers/audioAnalysis.worklet.ts?worker&url';
+import {
+  DEFAULT_VOICE_ACTIVITY_CONFIG,
+  SpeechSegment,
+  VoiceActivity,
+  VoiceActivityConfig,
+  VoiceActivityDetector
+} from './voiceActivity';
+import { DEFAULT_SPEAKER_CONFIG, SpeakerConfig, SpeakerEstimate, SpeakerTracker } from './speakerAnalysis';
+import {
+  DEFAULT_MICROPHONE_HEALTH_CONFIG,
+  MicrophoneHealth,
+  MicrophoneHealthConfig,
+  MicrophoneMonitor
+} from './microphoneHealth';
 
 let audioContext: AudioContext | null = null;
-let analyzer: AnalyserNode | null = null;
 let microphone: MediaStreamAudioSourceNode | null = null;
 let audioStream: MediaStream | null = null;
+let workletNode: AudioWorkletNode | null = null;
+let workletModule: Promise<void> | null = null;
+let audioConfig: AudioConfig = {
+  ...DEFAULT_VOICE_ACTIVITY_CONFIG,
+  ...DEFAULT_SPEAKER_CONFIG,
+  ...DEFAULT_MICROPHONE_HEALTH_CONFIG,
+};
+let latestAnalysis: AudioAnalysis | null = null;
+const listeners = new Set<AudioAnalysisListener>();
+// Track and device events arrive even when the audio itself stops
+const microphoneMonitor = new MicrophoneMonitor({}, () => {
+  publish({ ...(latestAnalysis ?? EMPTY_ANALYSIS), ended: null });
+});
+
+// Fallback for browsers without AudioWorklet: poll an analyser on a timer
+let analyzer: AnalyserNode | null = null;
+let fallbackTimer: ReturnType<typeof setInterval> | null = null;
+const voiceDetector = new VoiceActivityDetector();
+const speakerTracker = new SpeakerTracker();
+
+const FFT_SIZE = 1024; // About 21 ms per analysed window at 48 kHz
+const REPORT_INTERVAL = 100; // ms between analysis events while nothing changes
+const PROCESSOR_NAME = 'audio-analysis'; // Registered by the worklet
+
+export type AudioConfig = VoiceActivityConfig & SpeakerConfig & MicrophoneHealthConfig;
+
+export const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  ...DEFAULT_VOICE_ACTIVITY_CONFIG,
+  ...DEFAULT_SPEAKER_CONFIG,
+  ...DEFAULT_MICROPHONE_HEALTH_CONFIG,
+};
+
+// Options the worklet processor is created with
+export interface AudioAnalysisOptions {
+  config: AudioConfig;
+  windowSize: number; // Samples per analysed window; a power of two
+  reportInterval: number; // ms
+  clockOffset: number; // Added to the audio clock in ms to give wall-clock time
+}
+
+// Messages sent to the audio worklet
+export type AudioAnalysisRequest =
+  | { type: 'config'; config: AudioConfig };
+
+// Messages sent back by the audio worklet
+export type AudioAnalysisResponse =
+  | { type: 'activity'; activity: VoiceActivity; voices: SpeakerEstimate };
+
+export interface AudioAnalysis {
+  speechDetected: boolean; // Someone is talking, including short pauses between words
+  speechProbability: number; // How much the latest frame sounds like speech (0-1)
+  level: number; // dBFS
+  volumeLevel: number; // 0-1
+  segment: SpeechSegment | null; // The speech segment in progress
+  ended: SpeechSegment | null; // A speech segment that finished with this frame
+  calibrating: boolean; // Measuring the background noise; thresholds are absolute meanwhile
+  noiseFloor: number | null; // dBFS of the background, once measured
+  voices: SpeakerEstimate; // Distinct voices in recent speech
+  microphone: MicrophoneHealth;
+}
+
+export type AudioAnalysisListener = (analysis: AudioAnalysis) => void;
+
+// Volume bar range in dBFS
+const VOLUME_FLOOR = -70;
+const VOLUME_RANGE = 60;
+
+// Before the first analysed frame
+const EMPTY_ANALYSIS: Omit<AudioAnalysis, 'microphone'> = {
+  speechDetected: false,
+  speechProbability: 0,
+  level: -Infinity,
+  volumeLevel: 0,
+  segment: null,
+  ended: null,
+  calibrating: true,
+  noiseFloor: null,
+  voices: { voiceCount: 0, separation: null, confidence: 0, segments: [] },
+};
 
-// Keep track of noise levels for anomaly detection
-const recentNoiseLevel: number[] = [];
-const MAX_NOISE_SAMPLES = 20;
-const NOISE_THRESHOLD = 0.2; // Threshold for suspicious noise level
+const toAnalysis = (activity: VoiceActivity, voices: SpeakerEstimate): Omit<AudioAnalysis, 'microphone'> => ({
+  speechDetected: activity.speaking,
+  speechProbability: activity.probability,
+  level: activity.features.level,
+  volumeLevel: Math.min(1, Math.max(0, (activity.features.level - VOLUME_FLOOR) / VOLUME_RANGE)),
+  segment: activity.segment,
+  ended: activity.ended,
+  calibrating: activity.calibrating,
+  noiseFloor: activity.noiseFloor,
+  voices,
+});
+
+// Add the microphone's health, keep the latest analysis and pass it on to subscribers
+const publish = (result: Omit<AudioAnalysis, 'microphone'>) => {
+  microphoneMonitor.updateLevel(result.level);
+  const analysis = { ...result, microphone: microphoneMonitor.getHealth() };
+  latestAnalysis = analysis;
+  listeners.forEach((listener) => listener(analysis));
+};
 
 /**
- * Initialize audio monitoring
+ * Analyse on the audio rendering thread, on the audio clock
  */
-export const initializeAudio = async (): Promise<boolean> => {
+const startWorklet = async (context: AudioContext, source: MediaStreamAudioSourceNode) => {
+  workletModule = workletModule ?? context.audioWorklet.addModule(audioWorkletUrl);
+  await workletModule;
+
+  const processorOptions: AudioAnalysisOptions = {
+    config: audioConfig,
+    windowSize: FFT_SIZE,
+    reportInterval: REPORT_INTERVAL,
+    clockOffset: Date.now() - context.currentTime * 1000,
+  };
+  // Without outputs the node is a sink, processed whether or not anything plays
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+  node.port.onmessage = (event: MessageEvent<AudioAnalysisResponse>) => {
+    if (event.data.type === 'activity') {
+      publish(toAnalysis(event.data.activity, event.data.voices));
+    }
+  };
+  source.connect(node);
+  workletNode = node;
+};
+
+/**
+ * Analyse the analyser's latest frame on a main-thread timer
+ */
+const startFallback = (context: AudioContext, source: MediaStreamAudioSourceNode) => {
+  analyzer = context.createAnalyser();
+  analyzer.fftSize = FFT_SIZE;
+  analyzer.smoothingTimeConstant = 0; // Each frame is judged on its own; the detector smooths
+  source.connect(analyzer);
+  voiceDetector.updateConfig(audioConfig);
+  speakerTracker.updateConfig(audioConfig);
+  let lastReport = -Infinity;
+  let wasSpeaking = false;
+  let wasCalibrating = true;
+  let lastVoiceCount = 0;
+  fallbackTimer = setInterval(() => {
+    if (!analyzer) return;
+    const samples = new Float32Array(analyzer.fftSize);
+    analyzer.getFloatTimeDomainData(samples);
+
+    // The analyser reports decibels; the features work on linear power
+    const spectrum = new Float32Array(analyzer.frequencyBinCount);
+    analyzer.getFloatFrequencyData(spectrum);
+    for (let i = 0; i < spectrum.length; i++) {
+      spectrum[i] = Math.pow(10, spectrum[i] / 10);
+    }
+
+    const activity = voiceDetector.analyse(samples, spectrum, context.sampleRate);
+    const isSpeech = activity.speaking && activity.probability >= audioConfig.speechThreshold;
+    const voices = speakerTracker.update(samples, spectrum, context.sampleRate, isSpeech);
+
+    // Same reporting as the worklet: steady, and straight away on changes
+    const now = Date.now();
+    const changed = activity.speaking !== wasSpeaking
+      || activity.calibrating !== wasCalibrating
+      || voices.voiceCount !== lastVoiceCount
+      || activity.ended !== null;
+    wasSpeaking = activity.speaking;
+    wasCalibrating = activity.calibrating;
+    lastVoiceCount = voices.voiceCount;
+    if (!changed && now - lastReport < REPORT_INTERVAL) return;
+    lastReport = now;
+    publish(toAnalysis(activity, voices));
+  }, FFT_SIZE / context.sampleRate * 1000);
+};
+
+/**
+ * Initialize audio monitoring. Analysis runs on its own clock from here on,
+ * starting with a few seconds of measuring the background noise; results
+ * arrive through onAudioAnalysis.
+ */
+export const initializeAudio = async (config: AudioConfig = audioConfig): Promise<boolean> => {
   try {
+    audioConfig = config;
     if (!audioContext) {
       audioContext = new AudioContext();
     }
+    // A context created outside a user gesture starts suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
 
     // Get microphone permission
-    audioStream = await navigator.mediaDevices.getUserMedia({ 
-      audio: { 
+    audioStream = await navigator.mediaDevices.getUserMedia({
+      audio: {
         echoCancellation: true,
         noiseSuppression: true,
         autoGainControl: true
-      } 
+      }
     });
 
-    // Setup analyzer
-    if (audioContext && audioStream) {
-      microphone = audioContext.createMediaStreamSource(audioStream);
-      analyzer = audioContext.createAnalyser();
-      analyzer.fftSize = 256;
-      microphone.connect(analyzer);
-      return true;
+    microphone = audioContext.createMediaStreamSource(audioStream);
+    microphoneMonitor.attach(audioStream);
+    latestAnalysis = null;
+    voiceDetector.reset();
+    speakerTracker.reset();
+
+    if (audioContext.audioWorklet) {
+      try {
+        await startWorklet(audioContext, microphone);
+        return true;
+      } catch (error) {
+        console.warn('Audio worklet unavailable, analysing on a timer:', error);
+      }
     }
-    return false;
+    startFallback(audioContext, microphone);
+    return true;
   } catch (error) {
     console.error('Failed to initialize audio detection:', error);
     toast({
@@ -48,62 +245,63 @@ export const initializeAudio = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Apply new detection settings to the running analysis
+ */
+export const updateAudioConfig = (config: AudioConfig) => {
+  audioConfig = config;
+  voiceDetector.updateConfig(config);
+  speakerTracker.updateConfig(config);
+  microphoneMonitor.updateConfig(config);
+  const request: AudioAnalysisRequest = { type: 'config', config };
+  workletNode?.port.postMessage(request);
+};
+
+/**
+ * Subscribe to audio analysis results
+ * @returns A function that unsubscribes
+ */
+export const onAudioAnalysis = (listener: AudioAnalysisListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The live microphone stream, e.g. for recording it alongside the camera
+ */
+export const getAudioStream = (): MediaStream | null => audioStream;
+
 /**
  * Stop audio monitoring and release resources
  */
 export const stopAudio = () => {
+  if (fallbackTimer !== null) {
+    clearInterval(fallbackTimer);
+    fallbackTimer = null;
+  }
+  if (workletNode) {
+    workletNode.port.onmessage = null;
+    workletNode.disconnect();
+    workletNode = null;
+  }
   if (microphone) {
     microphone.disconnect();
     microphone = null;
   }
+  microphoneMonitor.detach();
   if (audioStream) {
     audioStream.getTracks().forEach(track => track.stop());
     audioStream = null;
   }
   analyzer = null;
+  latestAnalysis = null;
+  voiceDetector.reset();
+  speakerTracker.reset();
 };
 
 /**
- * Process audio to detect suspicious sounds
- * @returns Object containing noise metrics
+ * The most recent analysis, or null before the first one arrives
  */
-export const processAudio = (): { 
-  noiseDetected: boolean; 
-  noiseLevel: number;
-  volumeLevel: number;
-} => {
-  const result = {
-    noiseDetected: false,
-    noiseLevel: 0,
-    volumeLevel: 0
-  };
-
-  if (!analyzer) return result;
-
-  // Get frequency data
-  const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-  analyzer.getByteFrequencyData(dataArray);
-
-  // Calculate current volume level (0-1)
-  const average = dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
-  const normalizedVolume = average / 255;
-  result.volumeLevel = normalizedVolume;
-
-  // Track noise levels
-  recentNoiseLevel.push(normalizedVolume);
-  if (recentNoiseLevel.length > MAX_NOISE_SAMPLES) {
-    recentNoiseLevel.shift();
-  }
-
-  // Calculate noise variance (rough indication of talking vs background noise)
-  if (recentNoiseLevel.length > 5) {
-    const mean = recentNoiseLevel.reduce((sum, val) => sum + val, 0) / recentNoiseLevel.length;
-    const variance = recentNoiseLevel.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / recentNoiseLevel.length;
-    
-    result.noiseLevel = variance;
-    // Higher variance often indicates talking or irregular noises
-    result.noiseDetected = variance > NOISE_THRESHOLD && normalizedVolume > 0.1;
-  }
-
-  return result;
-};
+export const getAudioAnalysis = (): AudioAnalysis | null => latestAnalysis;
@@ -0,0 +1,174 @@
+import type { FrameAnalysis } from './detectionUtils';
+import { HeadPose, getLandmarkPoints } from './headPoseUtils';
+
+export type CalibrationTarget = 'center' | 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+
+export interface CalibrationStep {
+  target: CalibrationTarget;
+  label: string;
+  duration: number; // ms
+}
+
+// The student looks at each point in turn while samples are collected
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  { target: 'center', label: 'Look at the center of the screen', duration: 3000 },
+  { target: 'topLeft', label: 'Look at the top-left corner', duration: 1500 },
+  { target: 'topRight', label: 'Look at the top-right corner', duration: 1500 },
+  { target: 'bottomRight', label: 'Look at the bottom-right corner', duration: 1500 },
+  { target: 'bottomLeft', label: 'Look at the bottom-left corner', duration: 1500 },
+];
+
+// Neutral face geometry for one student in front of their own camera
+export interface CalibrationBaseline {
+  faceWidth: number;
+  faceHeight: number;
+  centerX: number;
+  centerY: number;
+  eyeDistance: number;
+  neutralPose: HeadPose;
+  yawRange: number; // Largest yaw offset from neutral while looking at the screen corners
+  pitchRange: number; // Largest pitch offset from neutral while looking at the screen corners
+  sampleCount: number;
+  createdAt: number;
+}
+
+interface CalibrationSample {
+  target: CalibrationTarget;
+  faceWidth: number;
+  faceHeight: number;
+  centerX: number;
+  centerY: number;
+  eyeDistance: number | null;
+  headPose: HeadPose | null;
+}
+
+const MIN_CENTER_SAMPLES = 5;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Collects frames during the guided calibration step and turns them into a baseline
+ */
+export class CalibrationRecorder {
+  readonly steps: CalibrationStep[];
+  private samples: CalibrationSample[] = [];
+  private startTime: number | null = null;
+  private totalDuration: number;
+
+  constructor(steps: CalibrationStep[] = CALIBRATION_STEPS) {
+    this.steps = steps;
+    this.totalDuration = steps.reduce((sum, step) => sum + step.duration, 0);
+  }
+
+  start(now = Date.now()): void {
+    this.samples = [];
+    this.startTime = now;
+  }
+
+  /**
+   * Step the student should be following at the given time, or null when done
+   */
+  getCurrentStep(now = Date.now()): CalibrationStep | null {
+    if (this.startTime === null) return null;
+
+    let elapsed = now - this.startTime;
+    for (const step of this.steps) {
+      if (elapsed < step.duration) return step;
+      elapsed -= step.duration;
+    }
+    return null;
+  }
+
+  getProgress(now = Date.now()): number {
+    if (this.startTime === null) return 0;
+    return Math.min(1, (now - this.startTime) / this.totalDuration);
+  }
+
+  isComplete(now = Date.now()): boolean {
+    return this.startTime !== null && now - this.startTime >= this.totalDuration;
+  }
+
+  /**
+   * Record a frame for the current step. Frames without exactly one face are ignored.
+   */
+  addFrame(analysis: FrameAnalysis, now = Date.now()): void {
+    const step = this.getCurrentStep(now);
+    if (!step || analysis.faceCount !== 1 || !analysis.predictions) return;
+
+    const face = analysis.predictions[0];
+    const topLeft = face.topLeft as [number, number];
+    const bottomRight = face.bottomRight as [number, number];
+    const landmarks = getLandmarkPoints(face);
+
+    this.samples.push({
+      target: step.target,
+      faceWidth: bottomRight[0] - topLeft[0],
+      faceHeight: bottomRight[1] - topLeft[1],
+      centerX: (topLeft[0] + bottomRight[0]) / 2,
+      centerY: (topLeft[1] + bottomRight[1]) / 2,
+      eyeDistance: landmarks
+        ? Math.hypot(landmarks[1][0] - landmarks[0][0], landmarks[1][1] - landmarks[0][1])
+        : null,
+      headPose: analysis.headPose,
+    });
+  }
+
+  /**
+   * Build the baseline from the collected samples
+   * @returns The baseline, or null if the face was not seen clearly enough
+   */
+  computeBaseline(now = Date.now()): CalibrationBaseline | null {
+    const centerSamples = this.samples.filter((sample) => sample.target === 'center');
+    if (centerSamples.length < MIN_CENTER_SAMPLES) return null;
+
+    const centerPoses = centerSamples
+      .map((sample) => sample.headPose)
+      .filter((pose): pose is HeadPose => pose !== null);
+
+    const neutralPose: HeadPose = {
+      yaw: median(centerPoses.map((pose) => pose.yaw)),
+      pitch: median(centerPoses.map((pose) => pose.pitch)),
+      roll: median(centerPoses.map((pose) => pose.roll)),
+    };
+
+    // How far the head turns while still looking at the screen. The median per
+    // corner keeps a single bad frame from widening the range.
+    const cornerOffsets = this.steps
+      .filter((step) => step.target !== 'center')
+      .map((step) => {
+        const poses = this.samples
+          .filter((sample) => sample.target === step.target && sample.headPose)
+          .map((sample) => sample.headPose);
+        return {
+          yaw: median(poses.map((pose) => Math.abs(pose.yaw - neutralPose.yaw))),
+          pitch: median(poses.map((pose) => Math.abs(pose.pitch - neutralPose.pitch))),
+        };
+      });
+    const yawRange = Math.max(0, ...cornerOffsets.map((offset) => offset.yaw));
+    const pitchRange = Math.max(0, ...cornerOffsets.map((offset) => offset.pitch));
+
+    return {
+      faceWidth: median(centerSamples.map((sample) => sample.faceWidth)),
+      faceHeight: median(centerSamples.map((sample) => sample.faceHeight)),
+      centerX: median(centerSamples.map((sample) => sample.centerX)),
+      centerY: median(centerSamples.map((sample) => sample.centerY)),
+      eyeDistance: median(
+        centerSamples
+          .map((sample) => sample.eyeDistance)
+          .filter((distance): distance is number => distance !== null)
+      ),
+      neutralPose,
+      yawRange,
+      pitchRange,
+      sampleCount: this.samples.length,
+      createdAt: now,
+    };
+  }
+}
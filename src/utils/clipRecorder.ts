@@ -0,0 +1,227 @@
+export interface ClipRecorderConfig {
+  enabled: boolean;
+  preRoll: number; // ms of video kept from before an incident
+  postRoll: number; // ms recorded after an incident triggers
+  segmentDuration: number; // ms per self-contained recording segment
+  maxBufferMegabytes: number; // Oldest segments are dropped beyond this
+  maxStoredMegabytes: number; // Oldest saved clips are dropped beyond this
+  videoBitsPerSecond: number;
+}
+
+export const DEFAULT_CLIP_CONFIG: ClipRecorderConfig = {
+  enabled: true,
+  preRoll: 10000,
+  postRoll: 5000,
+  segmentDuration: 5000,
+  maxBufferMegabytes: 20,
+  maxStoredMegabytes: 200,
+  videoBitsPerSecond: 500000,
+};
+
+// A playable recording of part of the session
+export interface ClipSegment {
+  blob: Blob;
+  startTime: number;
+  endTime: number;
+}
+
+interface ClipRequest {
+  from: number;
+  to: number;
+  resolve: (segments: ClipSegment[]) => void;
+}
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Keeps the last few seconds of the camera (and microphone) in memory so a
+ * clip from before an incident can be saved once it triggers.
+ *
+ * Only the first chunk of a MediaRecorder stream carries the container
+ * header, so a rolling window of chunks is not playable. Instead the recorder
+ * is restarted every segmentDuration, and each segment is a complete file.
+ * A clip is the list of segments that overlap the requested window.
+ */
+export class ClipRecorder {
+  config: ClipRecorderConfig;
+  private streams: MediaStream[] = [];
+  private recorder: MediaRecorder | null = null;
+  private rotationTimer: ReturnType<typeof setTimeout> | null = null;
+  private segments: ClipSegment[] = [];
+  private requests: ClipRequest[] = [];
+  private mimeType = '';
+  private running = false;
+
+  constructor(config: Partial<ClipRecorderConfig> = {}) {
+    this.config = { ...DEFAULT_CLIP_CONFIG, ...config };
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  get isRecording(): boolean {
+    return this.running;
+  }
+
+  updateConfig(config: Partial<ClipRecorderConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.trim();
+  }
+
+  /**
+   * Start recording the tracks of the given streams
+   */
+  start(streams: MediaStream[]): void {
+    if (this.running || !ClipRecorder.isSupported()) return;
+
+    this.streams = streams;
+    this.mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+    this.running = true;
+    this.startSegment();
+  }
+
+  /**
+   * Switch to a new set of streams, e.g. when the microphone is turned on.
+   * The current segment ends early so the next one includes the new tracks.
+   */
+  setStreams(streams: MediaStream[]): void {
+    this.streams = streams;
+    if (this.running) {
+      this.rotate();
+    }
+  }
+
+  /**
+   * Save a clip from preRoll before to postRoll after the trigger time
+   * @returns The segments covering the window once the post-roll has been
+   * recorded, or whatever was recorded if recording cannot continue
+   */
+  requestClip(triggerTime = Date.now()): Promise<ClipSegment[]> {
+    const from = triggerTime - this.config.preRoll;
+    const to = triggerTime + this.config.postRoll;
+    if (!this.running) {
+      return Promise.resolve(this.collect(from, to));
+    }
+
+    return new Promise((resolve) => {
+      this.requests.push({ from, to, resolve });
+      // End the segment at the end of the window so the clip is not delayed
+      setTimeout(() => {
+        if (this.running) this.rotate();
+      }, Math.max(0, to - Date.now()));
+    });
+  }
+
+  /**
+   * Stop recording. Pending clips resolve with whatever was recorded.
+   */
+  stop(): void {
+    this.running = false;
+    this.rotate();
+  }
+
+  /**
+   * Stop recording and drop the buffer
+   */
+  dispose(): void {
+    this.stop();
+    this.segments = [];
+  }
+
+  // Without a segment nothing more is recorded until the next rotation, so
+  // pending clips settle with what there is
+  private startSegment() {
+    const tracks = this.streams
+      .flatMap((stream) => stream.getTracks())
+      .filter((track) => track.readyState === 'live');
+    if (tracks.length === 0) return;
+
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(new MediaStream(tracks), {
+        mimeType: this.mimeType || undefined,
+        videoBitsPerSecond: this.config.videoBitsPerSecond,
+      });
+    } catch (error) {
+      console.error('Could not start clip recording:', error);
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const startTime = Date.now();
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      if (chunks.length > 0) {
+        this.segments.push({
+          blob: new Blob(chunks, { type: recorder.mimeType || this.mimeType }),
+          startTime,
+          endTime: Date.now(),
+        });
+      }
+      this.settleRequests();
+      this.trim();
+    };
+
+    recorder.start();
+    this.recorder = recorder;
+    this.rotationTimer = setTimeout(() => this.rotate(), this.config.segmentDuration);
+  }
+
+  // Finish the current segment and, while running, start the next one
+  private rotate() {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+
+    const previous = this.recorder;
+    this.recorder = null;
+    if (this.running) {
+      this.startSegment();
+    }
+
+    if (previous && previous.state !== 'inactive') {
+      previous.stop();
+    } else {
+      this.settleRequests();
+    }
+  }
+
+  private settleRequests() {
+    const recordedUntil = this.segments[this.segments.length - 1]?.endTime ?? 0;
+    this.requests = this.requests.filter((request) => {
+      if (this.recorder && recordedUntil < request.to) return true;
+      request.resolve(this.collect(request.from, request.to));
+      return false;
+    });
+  }
+
+  private collect(from: number, to: number): ClipSegment[] {
+    return this.segments.filter((segment) => segment.endTime > from && segment.startTime < to);
+  }
+
+  // Keep only what pending clips and the pre-roll still need, within the memory cap
+  private trim() {
+    const cutoff = Math.min(
+      Date.now() - this.config.preRoll,
+      ...this.requests.map((request) => request.from)
+    );
+    this.segments = this.segments.filter((segment) => segment.endTime >= cutoff);
+
+    const maxBytes = this.config.maxBufferMegabytes * MEGABYTE;
+    let total = this.segments.reduce((sum, segment) => sum + segment.blob.size, 0);
+    while (total > maxBytes && this.segments.length > 1) {
+      total -= this.segments.shift().blob.size;
+    }
+  }
+}
@@ -0,0 +1,450 @@
+import { z } from 'zod';
+import { DEFAULT_SESSION_CONFIG, DetectionSessionConfig } from './detectionSession';
+import { DEFAULT_SCHEDULER_CONFIG, DetectionSchedulerConfig } from './detectionScheduler';
+import { DEFAULT_IDENTITY_CONFIG, IdentityConfig } from './identityUtils';
+import { DEFAULT_OBJECT_DETECTION_CONFIG, ObjectDetectionConfig } from './objectDetectionUtils';
+import { DEFAULT_LIVENESS_CONFIG, LivenessConfig } from './livenessUtils';
+import { DEFAULT_FRAME_QUALITY_CONFIG, FrameQualityConfig } from './frameQualityUtils';
+import { AudioConfig, DEFAULT_AUDIO_CONFIG } from './audioUtils';
+import { DEFAULT_DEDUPE_WINDOW, DEFAULT_STATUS_CONFIG, StatusMachineConfig } from './statusMachine';
+import { DETECTION_CATEGORIES, DetectionCategory } from './detectionUtils';
+import { DEFAULT_EVIDENCE_CONFIG, EvidenceConfig } from './evidenceUtils';
+import { ClipRecorderConfig, DEFAULT_CLIP_CONFIG } from './clipRecorder';
+import { DEFAULT_RISK_CONFIG, DEFAULT_RISK_WEIGHTS, RiskConfig, RiskWeights } from './riskScore';
+import {
+  DEFAULT_RULE_ENGINE_CONFIG,
+  RuleEngineConfig,
+  RuleOverrides,
+  applyRuleOverrides,
+  getRuleOverrides,
+  migrateRules,
+  restoreRules,
+  ruleSetSchema
+} from './ruleEngine';
+
+export interface AlertConfig {
+  dedupeWindow: number; // ms after an incident ends during which a recurrence reopens it
+}
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  dedupeWindow: DEFAULT_DEDUPE_WINDOW,
+};
+
+/**
+ * Every tunable threshold of the detection pipeline, grouped by the
+ * component that consumes it
+ */
+export interface DetectionConfig {
+  face: DetectionSessionConfig;
+  scheduler: DetectionSchedulerConfig;
+  identity: IdentityConfig;
+  objects: ObjectDetectionConfig;
+  liveness: LivenessConfig;
+  frameQuality: FrameQualityConfig;
+  audio: AudioConfig;
+  status: StatusMachineConfig;
+  evidence: EvidenceConfig;
+  clips: ClipRecorderConfig;
+  alerts: AlertConfig;
+  risk: RiskConfig;
+  riskWeights: RiskWeights;
+  rules: RuleEngineConfig;
+}
+
+export type DetectionConfigSection = keyof DetectionConfig;
+
+// Any subset of settings, e.g. a preset or a hand-written import file
+export type DetectionConfigOverrides = {
+  [Section in DetectionConfigSection]?: Partial<DetectionConfig[Section]>;
+};
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  face: DEFAULT_SESSION_CONFIG,
+  scheduler: DEFAULT_SCHEDULER_CONFIG,
+  identity: DEFAULT_IDENTITY_CONFIG,
+  objects: DEFAULT_OBJECT_DETECTION_CONFIG,
+  liveness: DEFAULT_LIVENESS_CONFIG,
+  frameQuality: DEFAULT_FRAME_QUALITY_CONFIG,
+  audio: DEFAULT_AUDIO_CONFIG,
+  status: DEFAULT_STATUS_CONFIG,
+  evidence: DEFAULT_EVIDENCE_CONFIG,
+  clips: DEFAULT_CLIP_CONFIG,
+  alerts: DEFAULT_ALERT_CONFIG,
+  risk: DEFAULT_RISK_CONFIG,
+  riskWeights: DEFAULT_RISK_WEIGHTS,
+  rules: DEFAULT_RULE_ENGINE_CONFIG,
+};
+
+const ratio = z.number().min(0).max(1);
+const duration = (max: number) => z.number().min(0).max(max);
+const count = (min: number, max: number) => z.number().int().min(min).max(max);
+
+export const detectionConfigSchema = z.object({
+  face: z.object({
+    maxHeadPositions: count(2, 100),
+    headMovementThreshold: z.number().min(1).max(500),
+    positionTrackingInterval: z.number().min(50).max(5000),
+    faceDisappearanceThreshold: count(1, 100),
+    yawThreshold: z.number().min(5).max(90),
+    pitchThreshold: z.number().min(5).max(90),
+    lookingAwayDuration: duration(30000),
+    relativeMovementThreshold: z.number().min(0.01).max(2),
+    poseMargin: z.number().min(0).max(45),
+    maxCenterOffset: z.number().min(0.25).max(10),
+    maxFaces: count(1, 10),
+    iouThreshold: ratio,
+    scoreThreshold: ratio,
+    useWorker: z.boolean(),
+  }),
+  scheduler: z.object({
+    targetFps: z.number().min(1).max(30),
+    minFps: z.number().min(0.5).max(30),
+    hiddenFps: z.number().min(0.5).max(10),
+    latencyHeadroom: z.number().min(1).max(5),
+  }),
+  identity: z.object({
+    enrollmentSamples: count(1, 20),
+    enrollmentInterval: z.number().min(100).max(5000),
+    checkInterval: z.number().min(1000).max(60000),
+    similarityThreshold: ratio,
+    consecutiveMismatches: count(1, 10),
+  }),
+  objects: z.object({
+    interval: z.number().min(250).max(30000),
+    minConfidence: ratio,
+    iouThreshold: ratio,
+    maxDetected: count(1, 100),
+    prohibitedClasses: z.array(z.string().min(1)),
+  }),
+  liveness: z.object({
+    windowDuration: z.number().min(5000).max(300000),
+    staticDifferenceThreshold: z.number().min(0).max(50),
+    microMotionThreshold: z.number().min(0).max(0.1),
+    minBlinksPerWindow: count(0, 50),
+    blinkDeviation: z.number().min(0.5).max(10),
+    maxBlinkDuration: z.number().min(100).max(2000),
+    replayMinGap: z.number().min(100).max(10000),
+    replayMinRepeats: count(1, 100),
+  }),
+  frameQuality: z.object({
+    coveredContrast: z.number().min(0).max(100),
+    coveredBrightness: z.number().min(0).max(255),
+    darkBrightness: z.number().min(0).max(255),
+    outOfFocusSharpness: z.number().min(0).max(1000),
+    frozenDuration: z.number().min(250).max(30000),
+    issueDuration: duration(10000),
+  }),
+  audio: z.object({
+    minLevel: z.number().min(-100).max(0),
+    noiseMargin: z.number().min(0).max(40),
+    speechBandLow: z.number().min(50).max(1000),
+    speechBandHigh: z.number().min(1000).max(8000),
+    minSpeechBandRatio: ratio,
+    maxFlatness: ratio,
+    minZeroCrossingRate: z.number().min(0).max(0.5),
+    maxZeroCrossingRate: z.number().min(0.01).max(1),
+    speechThreshold: ratio,
+    onsetDuration: duration(5000),
+    hangoverDuration: duration(10000),
+    calibrationDuration: z.number().min(500).max(30000),
+    baselineAdaptAfter: duration(600000),
+    baselineTimeConstant: z.number().min(1000).max(3600000),
+    minPitch: z.number().min(40).max(200),
+    maxPitch: z.number().min(200).max(1000),
+    chunkDuration: z.number().min(200).max(5000),
+    speakerWindow: z.number().min(2000).max(120000),
+    minVoiceChunks: count(1, 20),
+    voiceSeparation: z.number().min(0).max(50),
+    silenceLevel: z.number().min(-200).max(-60),
+    silenceDuration: z.number().min(1000).max(60000),
+    deviceChangeHold: z.number().min(1000).max(60000),
+  }),
+  // Timings are replaced per category, so each entry must be complete
+  status: z.record(
+    z.enum(DETECTION_CATEGORIES),
+    z.object({
+      warning: duration(60000),
+      danger: duration(60000),
+      exit: duration(60000),
+    })
+  ),
+  evidence: z.object({
+    snapshotFormat: z.enum(['image/webp', 'image/jpeg']),
+    snapshotQuality: z.number().min(0.1).max(1),
+    snapshotMaxWidth: z.number().int().min(160).max(1920),
+    maxSnapshots: count(1, 5000),
+  }),
+  clips: z.object({
+    enabled: z.boolean(),
+    preRoll: duration(60000),
+    postRoll: duration(60000),
+    segmentDuration: z.number().min(1000).max(30000),
+    maxBufferMegabytes: z.number().min(1).max(500),
+    maxStoredMegabytes: z.number().min(1).max(2000),
+    videoBitsPerSecond: z.number().int().min(100000).max(5000000),
+  }),
+  alerts: z.object({
+    dedupeWindow: duration(300000),
+  }),
+  risk: z.object({
+    dangerMultiplier: z.number().min(1).max(10),
+    durationWeight: z.number().min(0).max(10),
+    maxDurationMinutes: z.number().min(0).max(120),
+    repeatMultiplier: z.number().min(0).max(5),
+    halfLife: z.number().min(60000).max(24 * 60 * 60 * 1000),
+    scale: z.number().min(1).max(1000),
+    elevatedThreshold: z.number().min(0).max(100),
+    highThreshold: z.number().min(0).max(100),
+  }),
+  // One weight per category, so each can be set on its own
+  riskWeights: z.object(
+    Object.fromEntries(DETECTION_CATEGORIES.map((category) => [category, z.number().min(0).max(100)])) as
+      Record<DetectionCategory, z.ZodNumber>
+  ),
+  // An imported rule set replaces the current one; a lazy schema keeps imports from making rule fields optional
+  rules: z.object({
+    rules: z.lazy(() => ruleSetSchema),
+  }),
+});
+
+// Imports and presets may leave any setting out
+const overridesSchema = detectionConfigSchema.deepPartial();
+
+interface ConfigConflict {
+  section: DetectionConfigSection;
+  keys: string[];
+  message: string;
+}
+
+// Settings that are only valid relative to each other
+const getConfigConflicts = (config: DetectionConfig): ConfigConflict[] => {
+  const conflicts: ConfigConflict[] = [];
+  if (config.scheduler.minFps > config.scheduler.targetFps) {
+    conflicts.push({
+      section: 'scheduler',
+      keys: ['minFps', 'targetFps'],
+      message: 'Minimum rate must not be above the target rate',
+    });
+  }
+  if (config.audio.minZeroCrossingRate > config.audio.maxZeroCrossingRate) {
+    conflicts.push({
+      section: 'audio',
+      keys: ['minZeroCrossingRate', 'maxZeroCrossingRate'],
+      message: 'Minimum zero-crossing rate must not be above the maximum',
+    });
+  }
+  if (config.risk.elevatedThreshold > config.risk.highThreshold) {
+    conflicts.push({
+      section: 'risk',
+      keys: ['elevatedThreshold', 'highThreshold'],
+      message: 'Elevated threshold must not be above the high threshold',
+    });
+  }
+  return conflicts;
+};
+
+export type DetectionPresetId = 'balanced' | 'strict' | 'lenient';
+
+export interface DetectionPreset {
+  label: string;
+  description: string;
+  overrides: DetectionConfigOverrides;
+}
+
+export const DETECTION_PRESETS: Record<DetectionPresetId, DetectionPreset> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'Default thresholds suited to most exams.',
+    overrides: {},
+  },
+  strict: {
+    label: 'Strict',
+    description: 'Reacts sooner and to smaller deviations. Expect more false alarms.',
+    overrides: {
+      face: {
+        faceDisappearanceThreshold: 2,
+        yawThreshold: 22,
+        pitchThreshold: 18,
+        lookingAwayDuration: 1000,
+        maxFaces: 4,
+        scoreThreshold: 0.5,
+      },
+      identity: { checkInterval: 3000, similarityThreshold: 0.5 },
+      objects: { interval: 1000, minConfidence: 0.3 },
+      frameQuality: { issueDuration: 500 },
+      audio: { speechThreshold: 0.5, onsetDuration: 100, noiseMargin: 4, voiceSeparation: 4 },
+      alerts: { dedupeWindow: 5000 },
+    },
+  },
+  lenient: {
+    label: 'Lenient',
+    description: 'Tolerates brief glances and noisy rooms. Only clear incidents are reported.',
+    overrides: {
+      face: {
+        faceDisappearanceThreshold: 6,
+        yawThreshold: 40,
+        pitchThreshold: 32,
+        lookingAwayDuration: 3000,
+        scoreThreshold: 0.7,
+      },
+      identity: { similarityThreshold: 0.3 },
+      objects: { minConfidence: 0.55 },
+      frameQuality: { issueDuration: 2000 },
+      audio: { speechThreshold: 0.7, onsetDuration: 300, noiseMargin: 10, voiceSeparation: 6 },
+      alerts: { dedupeWindow: 20000 },
+    },
+  },
+};
+
+const STORAGE_KEY = 'cheatguardian.detectionConfig';
+
+/**
+ * Apply overrides on top of a complete config, section by section
+ */
+export const mergeDetectionConfig = (
+  base: DetectionConfig,
+  overrides: DetectionConfigOverrides
+): DetectionConfig => {
+  const merged = { ...base };
+  const mergeSection = <S extends DetectionConfigSection>(section: S) => {
+    merged[section] = { ...base[section], ...overrides[section] } as DetectionConfig[S];
+  };
+  (Object.keys(base) as DetectionConfigSection[]).forEach(mergeSection);
+  return merged;
+};
+
+// Rules written by older versions, brought up to date before validation
+const migrateConfig = (value: unknown): unknown => {
+  const rules = (value as { rules?: { rules?: unknown } } | null)?.rules?.rules;
+  return Array.isArray(rules)
+    ? { ...(value as object), rules: { rules: migrateRules(rules) } }
+    : value;
+};
+
+/**
+ * Validate settings from an untrusted source. Missing settings fall back to
+ * the defaults; invalid ones throw a ZodError describing every problem.
+ */
+export const parseDetectionConfig = (value: unknown): DetectionConfig => {
+  const config = mergeDetectionConfig(
+    DEFAULT_DETECTION_CONFIG,
+    overridesSchema.parse(migrateConfig(value)) as DetectionConfigOverrides
+  );
+  const conflicts = getConfigConflicts(config);
+  if (conflicts.length > 0) {
+    throw new z.ZodError(conflicts.map(({ section, keys, message }) => ({
+      code: z.ZodIssueCode.custom,
+      path: [section, keys[0]],
+      message,
+    })));
+  }
+  return config;
+};
+
+/**
+ * The settings saved with a session by this or an older version. Rules that
+ * no longer validate are dropped instead of failing the whole config.
+ */
+export const restoreDetectionConfig = (value: DetectionConfigOverrides): DetectionConfig => {
+  const { rules, ...settings } = value;
+  return {
+    ...mergeDetectionConfig(DEFAULT_DETECTION_CONFIG, settings),
+    rules: { rules: restoreRules(rules?.rules) },
+  };
+};
+
+/**
+ * Validate a single setting, and against the settings it depends on when the
+ * rest of the config is given
+ * @returns An error message, or null if the value is acceptable
+ */
+export const validateSetting = (
+  section: DetectionConfigSection,
+  key: string,
+  value: unknown,
+  config?: DetectionConfig
+): string | null => {
+  const sectionSchema = detectionConfigSchema.shape[section];
+  const shape: Record<string, z.ZodTypeAny> = sectionSchema instanceof z.ZodObject ? sectionSchema.shape : {};
+  if (!shape[key]) return `Unknown setting ${section}.${key}`;
+  const result = shape[key].safeParse(value);
+  if (!result.success) return result.error.issues[0]?.message ?? 'Invalid value';
+  if (!config) return null;
+
+  const next = { ...config, [section]: { ...config[section], [key]: value } };
+  const conflict = getConfigConflicts(next)
+    .find((item) => item.section === section && item.keys.includes(key));
+  return conflict?.message ?? null;
+};
+
+/**
+ * Build the config for a preset
+ */
+export const getPresetConfig = (preset: DetectionPresetId): DetectionConfig =>
+  mergeDetectionConfig(DEFAULT_DETECTION_CONFIG, DETECTION_PRESETS[preset].overrides);
+
+/**
+ * The preset a config matches exactly, or null once it has been customised
+ */
+export const findMatchingPreset = (config: DetectionConfig): DetectionPresetId | null => {
+  const serialized = JSON.stringify(config);
+  const match = (Object.keys(DETECTION_PRESETS) as DetectionPresetId[]).find(
+    (preset) => JSON.stringify(getPresetConfig(preset)) === serialized
+  );
+  return match ?? null;
+};
+
+// Saved rules: overrides of the defaults, or a whole rule set from older versions
+type StoredRules = Partial<RuleOverrides> & { rules?: unknown };
+
+/**
+ * Read the saved config, falling back to the defaults if it is missing or
+ * invalid. Rules are restored on their own, so a rule that no longer
+ * validates does not discard the other settings.
+ */
+export const loadDetectionConfig = (): DetectionConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_DETECTION_CONFIG;
+    const { rules: storedRules = {}, ...settings } = JSON.parse(stored) as { rules?: StoredRules };
+    // A whole rule set was mostly the defaults of its time; keep its edits
+    // and let default rules it does not mention apply
+    const overrides = Array.isArray(storedRules.rules)
+      ? { ...getRuleOverrides(restoreRules(storedRules.rules)), removed: [] }
+      : storedRules;
+    return {
+      ...parseDetectionConfig(settings),
+      rules: { rules: applyRuleOverrides(overrides) },
+    };
+  } catch (error) {
+    console.warn('Ignoring invalid saved detection settings:', error);
+    return DEFAULT_DETECTION_CONFIG;
+  }
+};
+
+export const saveDetectionConfig = (config: DetectionConfig): void => {
+  try {
+    const stored = { ...config, rules: getRuleOverrides(config.rules.rules) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn('Could not save detection settings:', error);
+  }
+};
+
+export const serializeDetectionConfig = (config: DetectionConfig): string =>
+  JSON.stringify(config, null, 2);
+
+/**
+ * Readable summary of a validation error for display
+ */
+export const describeConfigError = (error: unknown): string => {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map((issue) => `${issue.path.join('.') || 'settings'}: ${issue.message}`)
+      .join('; ');
+  }
+  if (error instanceof SyntaxError) {
+    return 'The file is not valid JSON.';
+  }
+  return error instanceof Error ? error.message : String(error);
+};
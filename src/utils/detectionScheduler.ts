@@ -0,0 +1,267 @@
+import type { SchedulerClockRequest } from '@/workers/schedulerClock.worker';
+
+export interface DetectionSchedulerConfig {
+  targetFps: number; // Detection rate to aim for while the page is visible
+  minFps: number; // Never back off below this rate
+  hiddenFps: number; // Sampling rate on the worker clock while the page is hidden
+  latencyHeadroom: number; // Keep the interval at least this multiple of inference latency
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: DetectionSchedulerConfig = {
+  targetFps: 10,
+  minFps: 2,
+  hiddenFps: 2,
+  latencyHeadroom: 1.5,
+};
+
+// Frames analysed and dropped over a stretch of monitoring
+export interface FrameCoverage {
+  framesAnalysed: number;
+  framesDropped: number;
+  hidden: boolean; // Page was hidden at some point during the stretch
+}
+
+// Coverage during one second of monitoring
+export interface CoverageSample extends FrameCoverage {
+  timestamp: number;
+}
+
+export interface SchedulerStats {
+  targetFps: number;
+  effectiveFps: number; // Rate the scheduler is currently aiming for after back-off
+  analysedFps: number; // Frames actually analysed during the last full second
+  averageLatency: number; // Smoothed time per detection (ms)
+  framesAnalysed: number;
+  framesDropped: number;
+  hidden: boolean;
+}
+
+// Resolves to false when the frame was dropped instead of analysed
+export type DetectionTask = () => Promise<boolean>;
+
+const LATENCY_SMOOTHING = 0.2;
+const CLOCK_TOLERANCE = 0.1; // Restart the hidden clock once the interval drifts this far
+
+/**
+ * Runs the detection task at a configurable rate. Backs off when inference
+ * gets slow and switches to a worker clock while the page is hidden, since
+ * browsers pause requestAnimationFrame and throttle timers in background tabs.
+ */
+export class DetectionScheduler {
+  private config: DetectionSchedulerConfig;
+  private task: DetectionTask;
+  private running = false;
+  private inFlight = false;
+  private hidden = false;
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+  private clock: Worker | null = null;
+  private fallbackClock: ReturnType<typeof setInterval> | null = null;
+  private clockInterval = 0; // Interval the hidden clock is ticking at
+  private averageLatency = 0;
+  private framesAnalysed = 0;
+  private framesDropped = 0;
+  private lastSecond: CoverageSample | null = null;
+  private bucket: CoverageSample | null = null;
+  private window: FrameCoverage = { framesAnalysed: 0, framesDropped: 0, hidden: false };
+
+  constructor(task: DetectionTask, config: Partial<DetectionSchedulerConfig> = {}) {
+    this.task = task;
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
+
+  /**
+   * Start sampling frames
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.hidden = typeof document !== 'undefined' && document.hidden;
+    this.bucket = this.newBucket(Date.now());
+    this.window.hidden = this.window.hidden || this.hidden;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+    if (this.hidden) {
+      this.startHiddenClock();
+    } else {
+      this.scheduleNext(0);
+    }
+  }
+
+  /**
+   * Stop sampling frames. Stats are kept until the next start.
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.clearTimeout();
+    this.stopHiddenClock();
+    this.clock?.terminate();
+    this.clock = null;
+    this.flushBucket(Date.now());
+  }
+
+  updateConfig(config: Partial<DetectionSchedulerConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.running && this.hidden) {
+      this.startHiddenClock();
+    }
+  }
+
+  /**
+   * Frames actually analysed during the last full second
+   */
+  get analysedFps(): number {
+    return this.lastSecond?.framesAnalysed ?? 0;
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      targetFps: this.config.targetFps,
+      effectiveFps: 1000 / this.getInterval(),
+      analysedFps: this.analysedFps,
+      averageLatency: this.averageLatency,
+      framesAnalysed: this.framesAnalysed,
+      framesDropped: this.framesDropped,
+      hidden: this.hidden,
+    };
+  }
+
+  /**
+   * Frames analysed and dropped since the previous call, for the session log
+   */
+  takeCoverage(): FrameCoverage {
+    const coverage = this.window;
+    this.window = { framesAnalysed: 0, framesDropped: 0, hidden: this.hidden };
+    return coverage;
+  }
+
+  /**
+   * Time between detections, stretched when inference is slower than the target
+   */
+  private getInterval(): number {
+    const { targetFps, minFps, hiddenFps, latencyHeadroom } = this.config;
+    const baseInterval = 1000 / (this.hidden ? hiddenFps : targetFps);
+    const maxInterval = 1000 / minFps;
+    return Math.min(maxInterval, Math.max(baseInterval, this.averageLatency * latencyHeadroom));
+  }
+
+  private async runTick(): Promise<void> {
+    if (!this.running || this.inFlight) return;
+
+    this.inFlight = true;
+    const startTime = performance.now();
+    let analysed = false;
+    try {
+      analysed = await this.task();
+    } catch (error) {
+      console.error('Error in scheduled detection:', error);
+    }
+    const latency = performance.now() - startTime;
+    this.inFlight = false;
+
+    this.recordFrame(analysed, latency);
+
+    if (!this.running) return;
+    const interval = this.getInterval();
+    if (!this.hidden) {
+      this.scheduleNext(Math.max(0, interval - latency));
+    } else if (Math.abs(interval - this.clockInterval) > this.clockInterval * CLOCK_TOLERANCE) {
+      // Follow the measured latency while the hidden clock drives detection
+      this.startHiddenClock();
+    }
+  }
+
+  private recordFrame(analysed: boolean, latency: number) {
+    const now = Date.now();
+    this.flushBucket(now);
+
+    if (analysed) {
+      this.framesAnalysed++;
+      this.bucket.framesAnalysed++;
+      this.window.framesAnalysed++;
+      this.averageLatency = this.averageLatency === 0
+        ? latency
+        : this.averageLatency + (latency - this.averageLatency) * LATENCY_SMOOTHING;
+    } else {
+      this.framesDropped++;
+      this.bucket.framesDropped++;
+      this.window.framesDropped++;
+    }
+  }
+
+  private newBucket(timestamp: number): CoverageSample {
+    return { timestamp, framesAnalysed: 0, framesDropped: 0, hidden: this.hidden };
+  }
+
+  /**
+   * Close out per-second coverage samples that have ended
+   */
+  private flushBucket(now: number) {
+    if (!this.bucket) return;
+
+    while (now - this.bucket.timestamp >= 1000) {
+      this.lastSecond = this.bucket;
+      this.bucket = this.newBucket(this.bucket.timestamp + 1000);
+    }
+  }
+
+  private scheduleNext(delay: number) {
+    this.clearTimeout();
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this.runTick();
+    }, delay);
+  }
+
+  private clearTimeout() {
+    if (this.timeout !== null) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  private startHiddenClock() {
+    this.stopHiddenClock();
+    const interval = this.getInterval();
+    this.clockInterval = interval;
+
+    if (typeof Worker !== 'undefined') {
+      if (!this.clock) {
+        this.clock = new Worker(
+          new URL('../workers/schedulerClock.worker.ts', import.meta.url),
+          { type: 'module' }
+        );
+        this.clock.onmessage = () => this.runTick();
+      }
+      this.clock.postMessage({ type: 'start', interval } satisfies SchedulerClockRequest);
+    } else {
+      this.fallbackClock = setInterval(() => this.runTick(), interval);
+    }
+  }
+
+  private stopHiddenClock() {
+    this.clock?.postMessage({ type: 'stop' } satisfies SchedulerClockRequest);
+    if (this.fallbackClock !== null) {
+      clearInterval(this.fallbackClock);
+      this.fallbackClock = null;
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (!this.running) return;
+
+    this.hidden = document.hidden;
+    this.flushBucket(Date.now());
+    this.bucket.hidden = this.bucket.hidden || this.hidden;
+    this.window.hidden = this.window.hidden || this.hidden;
+
+    if (this.hidden) {
+      this.clearTimeout();
+      this.startHiddenClock();
+    } else {
+      this.stopHiddenClock();
+      this.scheduleNext(0);
+    }
+  };
+}
@@ -0,0 +1,225 @@
+import * as blazeface from '@tensorflow-models/blazeface';
+import { FaceInferenceClient, isWorkerInferenceSupported } from './faceInferenceClient';
+import type { CalibrationBaseline } from './calibrationUtils';
+
+// Tracking state for head movement detection
+export interface HeadPosition {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export interface DetectionSessionConfig {
+  maxHeadPositions: number;
+  headMovementThreshold: number; // Pixels between samples that count as a significant movement
+  positionTrackingInterval: number; // Minimum ms between head position samples
+  faceDisappearanceThreshold: number; // Consecutive frames without a face to trigger danger
+  yawThreshold: number; // Degrees left or right
+  pitchThreshold: number; // Degrees up or down
+  lookingAwayDuration: number; // How long the pose must be held (ms)
+  relativeMovementThreshold: number; // Movement as a fraction of the calibrated face width
+  poseMargin: number; // Degrees allowed beyond the calibrated screen-corner range
+  maxCenterOffset: number; // Calibrated face sizes the head may move from its calibrated position
+  maxFaces: number;
+  iouThreshold: number;
+  scoreThreshold: number;
+  useWorker: boolean; // Run inference in a Web Worker when the browser supports it
+}
+
+export const DEFAULT_SESSION_CONFIG: DetectionSessionConfig = {
+  maxHeadPositions: 15,
+  headMovementThreshold: 25,
+  positionTrackingInterval: 300,
+  faceDisappearanceThreshold: 3,
+  yawThreshold: 30,
+  pitchThreshold: 25,
+  lookingAwayDuration: 1500,
+  relativeMovementThreshold: 0.2,
+  poseMargin: 10,
+  maxCenterOffset: 1.5,
+  maxFaces: 3, // Detect up to 3 faces in frame
+  iouThreshold: 0.3, // Lower threshold for better detection of multiple faces
+  scoreThreshold: 0.6, // Lower threshold to catch more potential faces
+  useWorker: true,
+};
+
+// Options baked into the loaded model; changing any of them needs a reload
+const MODEL_OPTIONS: (keyof DetectionSessionConfig)[] = ['maxFaces', 'iouThreshold', 'scoreThreshold', 'useWorker'];
+
+// Workers that may fail in a session before inference stays on the main thread
+const MAX_WORKER_FAILURES = 2;
+
+interface FaceBackend {
+  model: blazeface.BlazeFaceModel | null;
+  inferenceClient: FaceInferenceClient | null;
+}
+
+/**
+ * State for one monitored video stream: the loaded model (or inference
+ * worker), history buffers, counters and the config they are evaluated against
+ */
+export class DetectionSession {
+  config: DetectionSessionConfig;
+  model: blazeface.BlazeFaceModel | null = null;
+  inferenceClient: FaceInferenceClient | null = null;
+  headPositions: HeadPosition[] = [];
+  framesSinceFaceDetected = 0;
+  lookingAwaySince: number | null = null;
+  baseline: CalibrationBaseline | null = null;
+  private disposed = false;
+  private modelLoads = 0; // Counts reloads, so only the latest one is used
+  private workerFailures = 0;
+  private recovery: Promise<void> | null = null;
+
+  constructor(config: Partial<DetectionSessionConfig> = {}) {
+    this.config = { ...DEFAULT_SESSION_CONFIG, ...config };
+  }
+
+  get isReady(): boolean {
+    return !this.disposed && (this.model !== null || this.inferenceClient !== null);
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  // A failed inference worker is being replaced; frames are dropped meanwhile
+  get isRecovering(): boolean {
+    return this.recovery !== null;
+  }
+
+  /**
+   * Load the face detection model for this session, in a worker if possible
+   */
+  async initialize(): Promise<void> {
+    if (this.disposed) {
+      throw new Error('Cannot initialize a disposed detection session');
+    }
+    if (this.isReady) return;
+
+    this.useBackend(await this.loadBackend(this.config));
+  }
+
+  /**
+   * Apply new settings. Tracking options take effect on the next frame; model
+   * options load a new model, and the current one keeps running until it is ready.
+   */
+  async updateConfig(config: Partial<DetectionSessionConfig>): Promise<void> {
+    const next = { ...this.config, ...config };
+    const reload = this.isReady && MODEL_OPTIONS.some((key) => next[key] !== this.config[key]);
+    this.config = next;
+
+    if (this.headPositions.length > next.maxHeadPositions) {
+      this.headPositions = this.headPositions.slice(-next.maxHeadPositions);
+    }
+    if (!reload) return;
+
+    const load = ++this.modelLoads;
+    const backend = await this.loadBackend(next);
+    // A newer update may have changed the model options while this model was loading
+    if (load !== this.modelLoads || this.disposed) {
+      backend.inferenceClient?.terminate();
+      return;
+    }
+    this.inferenceClient?.terminate();
+    this.model = null;
+    this.inferenceClient = null;
+    this.useBackend(backend);
+  }
+
+  /**
+   * Replace an inference worker that crashed, stalled or was terminated: with
+   * a new worker the first time, and with the main-thread model after that
+   */
+  recoverBackend(): Promise<void> {
+    if (!this.recovery) {
+      this.inferenceClient?.terminate();
+      this.inferenceClient = null;
+      this.workerFailures++;
+      const load = ++this.modelLoads;
+      this.recovery = this.loadBackend(this.config)
+        .then((backend) => {
+          // A settings change may have loaded a newer model meanwhile
+          if (load !== this.modelLoads || this.disposed) {
+            backend.inferenceClient?.terminate();
+            return;
+          }
+          this.useBackend(backend);
+        })
+        .finally(() => {
+          this.recovery = null;
+        });
+    }
+    return this.recovery;
+  }
+
+  /**
+   * Use a calibrated baseline for movement and looking-away decisions
+   */
+  setBaseline(baseline: CalibrationBaseline | null): void {
+    this.baseline = baseline;
+    this.headPositions = [];
+    this.lookingAwaySince = null;
+  }
+
+  /**
+   * Pixel distance between head samples that counts as a significant movement
+   */
+  getMovementThreshold(): number {
+    if (!this.baseline) return this.config.headMovementThreshold;
+    return this.baseline.faceWidth * this.config.relativeMovementThreshold;
+  }
+
+  /**
+   * Clear tracking history so monitoring starts fresh. The calibration
+   * baseline is kept since it belongs to the student, not the run.
+   */
+  reset(): void {
+    this.headPositions = [];
+    this.framesSinceFaceDetected = 0;
+    this.lookingAwaySince = null;
+  }
+
+  private async loadBackend(config: DetectionSessionConfig): Promise<FaceBackend> {
+    const options = {
+      maxFaces: config.maxFaces,
+      iouThreshold: config.iouThreshold,
+      scoreThreshold: config.scoreThreshold,
+    };
+
+    if (config.useWorker && this.workerFailures < MAX_WORKER_FAILURES && isWorkerInferenceSupported()) {
+      const client = new FaceInferenceClient();
+      try {
+        await client.initialize(options);
+        return { model: null, inferenceClient: client };
+      } catch (error) {
+        console.warn('Face inference worker unavailable, running on main thread:', error);
+        client.terminate();
+      }
+    }
+
+    return { model: await blazeface.load(options), inferenceClient: null };
+  }
+
+  private useBackend(backend: FaceBackend) {
+    // The session may have been disposed while the model was loading
+    if (this.disposed) {
+      backend.inferenceClient?.terminate();
+      return;
+    }
+    this.model = backend.model;
+    this.inferenceClient = backend.inferenceClient;
+  }
+
+  /**
+   * Release the model and stop accepting frames
+   */
+  dispose(): void {
+    this.reset();
+    this.baseline = null;
+    this.model = null;
+    this.inferenceClient?.terminate();
+    this.inferenceClient = null;
+    this.disposed = true;
+  }
+}
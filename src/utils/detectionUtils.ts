@@ -1,40 +1,97 @@
 import * as tf from '@tensorflow/tfjs';
 import * as blazeface from '@tensorflow-models/blazeface';
+import { HeadPose, estimateHeadPose, getLandmarkPoints } from './headPoseUtils';
 
-// Cache the model once loaded
-let faceDetectionModel: blazeface.BlazeFaceModel | null = null;
+import { DetectionSession } from './detectionSession';
+import type { IdentityCheck } from './identityUtils';
+import type { DetectedObject } from './objectDetectionUtils';
+import type { LivenessResult } from './livenessUtils';
+import type { FrameQuality } from './frameQualityUtils';
+import type { AudioAnalysis } from './audioUtils';
+import type { IncidentMetrics } from './incidentUtils';
 
-// Tracking state for head movement detection
-interface HeadPosition {
-  x: number;
-  y: number;
-  timestamp: number;
+// What kind of suspicious activity a status or alert refers to, in reporting priority order
+export const DETECTION_CATEGORIES = [
+  'feedFrozen',
+  'cameraCovered',
+  'tooDark',
+  'outOfFocus',
+  'faceAbsent',
+  'multipleFaces',
+  'identityMismatch',
+  'liveness',
+  'prohibitedObject',
+  'lookingAway',
+  'audio',
+  'multipleVoices',
+  'microphone',
+  'pageReload',
+] as const;
+
+export type DetectionCategory = typeof DETECTION_CATEGORIES[number];
+
+export type StatusLevel = 'safe' | 'warning' | 'danger';
+
+// A suspicious condition that holds in the current frame, reported by a detection rule
+export interface StatusCondition {
+  status: Exclude<StatusLevel, 'safe'>;
+  message: string;
+  category: DetectionCategory;
+  confidence: number; // How sure the detector is (0-1)
+  metrics: IncidentMetrics; // Raw measurements behind the condition
 }
 
-// Enhanced constants for better detection
-const recentHeadPositions: HeadPosition[] = [];
-const MAX_HEAD_POSITIONS = 15; // Increased from 10 to 15 for better movement tracking
-const HEAD_MOVEMENT_THRESHOLD = 25; // Lowered from 30 to 25 for higher sensitivity
-const FREQUENT_MOVEMENTS_THRESHOLD = 3; // Keep at 3 significant movements
-const POSITION_TRACKING_INTERVAL = 300; // Decreased from 500ms to 300ms for more frequent sampling
+// Everything known about the current moment that feeds the overall status
+export interface DetectionSignals {
+  facePresent: boolean;
+  faceCount: number;
+  lookingAway: boolean;
+  faceScores?: number[]; // Detection probability of each face
+  headPose?: HeadPose | null;
+  identity?: IdentityCheck | null;
+  prohibitedObjects?: DetectedObject[];
+  liveness?: LivenessResult | null;
+  frameQuality?: FrameQuality | null;
+  audio?: AudioAnalysis | null; // Null while audio monitoring is off
+}
 
-// New constants for face size and position tracking
-const FACE_DISAPPEARANCE_THRESHOLD = 3; // Number of consecutive frames without a face to trigger warning
-let framesSinceFaceDetected = 0;
+export interface FrameAnalysis {
+  faceCount: number;
+  facePresent: boolean;
+  lookingAway: boolean;
+  estimatedAttention: number; // 0-100 percentage
+  headPose: HeadPose | null;
+  predictions: blazeface.NormalizedFace[] | null;
+}
+
+const emptyAnalysis = (): FrameAnalysis => ({
+  faceCount: 0,
+  facePresent: false,
+  lookingAway: false,
+  estimatedAttention: 0,
+  headPose: null,
+  predictions: null,
+});
+
+/**
+ * Detection probability of a face (0-1)
+ */
+export const getFaceScore = (face: blazeface.NormalizedFace): number => {
+  // Main-thread predictions carry a one-element array, worker ones a plain number
+  const probability = face.probability as unknown;
+  if (Array.isArray(probability)) return probability[0] ?? 1;
+  return typeof probability === 'number' ? probability : 1;
+};
 
 /**
- * Initialize the face detection model
+ * Initialize the face detection model for a session
  */
-export const initializeDetection = async (): Promise<void> => {
+export const initializeDetection = async (session: DetectionSession): Promise<void> => {
   try {
     // Load model if not already loaded
-    if (!faceDetectionModel) {
+    if (!session.isReady) {
       console.log('Loading face detection model...');
-      faceDetectionModel = await blazeface.load({
-        maxFaces: 3, // Detect up to 3 faces in frame
-        iouThreshold: 0.3, // Lower threshold for better detection of multiple faces
-        scoreThreshold: 0.6, // Lower threshold to catch more potential faces
-      });
+      await session.initialize();
       console.log('Face detection model loaded');
     }
   } catch (error) {
@@ -43,95 +100,180 @@ export const initializeDetection = async (): Promise<void> => {
   }
 };
 
+// A calibrated limit may be at most this many times the configured threshold,
+// so turning far during calibration cannot switch the check off
+const MAX_CALIBRATED_LIMIT = 2;
+
+/**
+ * Check whether the student is turned or has moved away. With a calibrated
+ * baseline the limits come from the student's own screen-corner range, which
+ * can be tighter or wider than the configured thresholds, scaled by how much
+ * closer or further the face is than during calibration; moving well away
+ * from the calibrated position counts as well.
+ */
+const isTurnedAway = (session: DetectionSession, face: blazeface.NormalizedFace, headPose: HeadPose | null): boolean => {
+  const { config, baseline } = session;
+  if (!baseline) {
+    return headPose !== null && (
+      Math.abs(headPose.yaw) > config.yawThreshold ||
+      Math.abs(headPose.pitch) > config.pitchThreshold
+    );
+  }
+
+  const topLeft = face.topLeft as [number, number];
+  const bottomRight = face.bottomRight as [number, number];
+  const width = bottomRight[0] - topLeft[0];
+  const height = bottomRight[1] - topLeft[1];
+  const offsetX = ((topLeft[0] + bottomRight[0]) / 2 - baseline.centerX) / baseline.faceWidth;
+  const offsetY = ((topLeft[1] + bottomRight[1]) / 2 - baseline.centerY) / baseline.faceHeight;
+  if (Math.hypot(offsetX, offsetY) > config.maxCenterOffset) return true;
+  if (!headPose) return false;
+
+  // Closer to the camera the screen corners are further round
+  const scale = Math.sqrt((width / baseline.faceWidth) * (height / baseline.faceHeight));
+  const yawLimit = Math.min(
+    baseline.yawRange * scale + config.poseMargin,
+    config.yawThreshold * MAX_CALIBRATED_LIMIT
+  );
+  const pitchLimit = Math.min(
+    baseline.pitchRange * scale + config.poseMargin,
+    config.pitchThreshold * MAX_CALIBRATED_LIMIT
+  );
+  return Math.abs(headPose.yaw - baseline.neutralPose.yaw) > yawLimit ||
+    Math.abs(headPose.pitch - baseline.neutralPose.pitch) > pitchLimit;
+};
+
+/**
+ * Run face detection for a frame, in the session's worker when it has one
+ * @returns The predictions, or null if the worker was busy and dropped the frame
+ */
+const detectFaces = async (
+  session: DetectionSession,
+  videoElement: HTMLVideoElement
+): Promise<blazeface.NormalizedFace[] | null> => {
+  const client = session.inferenceClient;
+  if (client) {
+    try {
+      const result = await client.detect(videoElement);
+      return result ? result.faces : null;
+    } catch (error) {
+      if (!client.hasFailed) throw error;
+      // Drop frames while the worker is replaced rather than report no face
+      console.warn('Face inference worker failed, replacing it:', error);
+      session.recoverBackend().catch((recoveryError) => {
+        console.error('Error replacing face inference backend:', recoveryError);
+      });
+      return null;
+    }
+  }
+
+  const faceDetectionModel = session.model;
+
+  // Enhanced detection with multiple runs for better accuracy
+  let predictions = await faceDetectionModel.estimateFaces(videoElement, false);
+  
+  // If no faces detected on first try, attempt a second pass with different settings
+  if (predictions.length === 0) {
+    // Try again with a different tensor input format
+    const imageTensor = tf.browser.fromPixels(videoElement);
+    predictions = await faceDetectionModel.estimateFaces(imageTensor, false);
+    imageTensor.dispose(); // Clean up tensor
+  }
+  
+  return predictions;
+};
+
 /**
  * Process a video frame to detect faces with enhanced sensitivity
+ * @returns The frame analysis, or null if the frame was dropped because
+ * inference for an earlier frame was still running or could not run at all
  */
 export const processVideoFrame = async (
+  session: DetectionSession,
   videoElement: HTMLVideoElement | null
-): Promise<{
-  faceCount: number;
-  facePresent: boolean;
-  lookingAway: boolean;
-  estimatedAttention: number; // 0-100 percentage
-  predictions: blazeface.NormalizedFace[] | null;
-}> => {
-  if (!videoElement || !faceDetectionModel) {
-    return {
-      faceCount: 0,
-      facePresent: false,
-      lookingAway: false,
-      estimatedAttention: 0,
-      predictions: null,
-    };
+): Promise<FrameAnalysis | null> => {
+  if (!videoElement) {
+    return emptyAnalysis();
   }
+  // Without a working model nothing can be said about faces
+  if (!session.isReady) return null;
+
+  const { config } = session;
 
   try {
-    // Enhanced detection with multiple runs for better accuracy
-    let predictions = await faceDetectionModel.estimateFaces(videoElement, false);
-    
-    // If no faces detected on first try, attempt a second pass with different settings
-    if (predictions.length === 0) {
-      // Try again with a different tensor input format
-      const imageTensor = tf.browser.fromPixels(videoElement);
-      predictions = await faceDetectionModel.estimateFaces(imageTensor, false);
-      imageTensor.dispose(); // Clean up tensor
-    }
+    const predictions = await detectFaces(session, videoElement);
+    if (!predictions) return null;
     
     const faceCount = predictions.length;
     const facePresent = faceCount > 0;
     
     // Update consecutive frames without a face counter
     if (!facePresent) {
-      framesSinceFaceDetected++;
+      session.framesSinceFaceDetected++;
     } else {
-      framesSinceFaceDetected = 0;
+      session.framesSinceFaceDetected = 0;
     }
     
     // Track head position for the primary face (if present)
     let lookingAway = false;
     let estimatedAttention = 100; // Start with 100% attention
+    let headPose: HeadPose | null = null;
     
     if (facePresent && predictions[0]) {
       const firstFace = predictions[0];
       const currentTime = Date.now();
       
+      // Estimate head orientation from the landmarks
+      const landmarks = getLandmarkPoints(firstFace);
+      headPose = landmarks ? estimateHeadPose(landmarks) : null;
+      
+      // Looking away once the head stays turned or moved past the limits long enough
+      const turnedAway = isTurnedAway(session, firstFace, headPose);
+      if (turnedAway) {
+        if (session.lookingAwaySince === null) {
+          session.lookingAwaySince = currentTime;
+        }
+        lookingAway = currentTime - session.lookingAwaySince >= config.lookingAwayDuration;
+      } else {
+        session.lookingAwaySince = null;
+      }
+      
       // Only add position at intervals to avoid too frequent updates
-      if (recentHeadPositions.length === 0 || 
-          (currentTime - recentHeadPositions[recentHeadPositions.length - 1].timestamp) > POSITION_TRACKING_INTERVAL) {
+      if (session.headPositions.length === 0 || 
+          (currentTime - session.headPositions[session.headPositions.length - 1].timestamp) > config.positionTrackingInterval) {
         
         const centerX = firstFace.topLeft[0] + (firstFace.bottomRight[0] - firstFace.topLeft[0]) / 2;
-        const centerY = firstFace.topLeft[1] + (firstFace.bottomRight[0] - firstFace.topLeft[1]) / 2;
+        const centerY = firstFace.topLeft[1] + (firstFace.bottomRight[1] - firstFace.topLeft[1]) / 2;
         
         // Add the position
-        recentHeadPositions.push({
+        session.headPositions.push({
           x: centerX,
           y: centerY,
           timestamp: currentTime,
         });
         
         // Keep only the most recent positions
-        if (recentHeadPositions.length > MAX_HEAD_POSITIONS) {
-          recentHeadPositions.shift();
+        if (session.headPositions.length > config.maxHeadPositions) {
+          session.headPositions.shift();
         }
         
         // Check for significant movements
+        const movementThreshold = session.getMovementThreshold();
         let significantMovements = 0;
-        if (recentHeadPositions.length > 1) {
-          for (let i = 1; i < recentHeadPositions.length; i++) {
-            const prev = recentHeadPositions[i - 1];
-            const curr = recentHeadPositions[i];
+        if (session.headPositions.length > 1) {
+          for (let i = 1; i < session.headPositions.length; i++) {
+            const prev = session.headPositions[i - 1];
+            const curr = session.headPositions[i];
             
             const distance = Math.sqrt(
               Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2)
             );
             
-            if (distance > HEAD_MOVEMENT_THRESHOLD) {
+            if (distance > movementThreshold) {
               significantMovements++;
             }
           }
           
-          lookingAway = significantMovements >= FREQUENT_MOVEMENTS_THRESHOLD;
-          
           // Reduce attention based on movement frequency
           if (significantMovements > 0) {
             // Each significant movement reduces attention by 20%
@@ -139,9 +281,15 @@ export const processVideoFrame = async (
           }
         }
       }
+      
+      // Frequent movements or a held turn both count against attention
+      if (lookingAway) {
+        estimatedAttention = Math.min(estimatedAttention, 40);
+      }
     } else {
       // If no face is present, attention is 0
       estimatedAttention = 0;
+      session.lookingAwaySince = null;
     }
     
     return {
@@ -149,65 +297,13 @@ export const processVideoFrame = async (
       facePresent,
       lookingAway,
       estimatedAttention,
+      headPose,
       predictions,
     };
   } catch (error) {
     console.error('Error in processVideoFrame:', error);
-    return {
-      faceCount: 0,
-      facePresent: false,
-      lookingAway: false,
-      estimatedAttention: 0,
-      predictions: null,
-    };
-  }
-};
-
-/**
- * Get the current detection status with enhanced criteria
- */
-export const getDetectionStatus = (
-  facePresent: boolean, 
-  faceCount: number, 
-  lookingAway: boolean
-): {
-  status: 'safe' | 'warning' | 'danger';
-  message: string;
-} => {
-  // Face has been missing for several consecutive frames
-  if (!facePresent && framesSinceFaceDetected >= FACE_DISAPPEARANCE_THRESHOLD) {
-    return {
-      status: 'danger',
-      message: 'No face detected in frame',
-    };
-  }
-  
-  if (faceCount > 1) {
-    return {
-      status: 'danger',
-      message: `Multiple faces detected (${faceCount})`,
-    };
-  }
-  
-  if (lookingAway) {
-    return {
-      status: 'warning',
-      message: 'Looking away from screen frequently',
-    };
+    return null;
   }
-  
-  // Short-term face disappearance (less than threshold) - warning level
-  if (!facePresent && framesSinceFaceDetected > 0) {
-    return {
-      status: 'warning',
-      message: 'Face temporarily not visible',
-    };
-  }
-  
-  return {
-    status: 'safe',
-    message: 'Normal exam behavior',
-  };
 };
 
 /**
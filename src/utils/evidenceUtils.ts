@@ -0,0 +1,222 @@
+import * as blazeface from '@tensorflow-models/blazeface';
+import { drawDetections } from './detectionUtils';
+import type { EvidenceRef, Incident } from './incidentUtils';
+
+export type SnapshotFormat = 'image/webp' | 'image/jpeg';
+
+export interface EvidenceConfig {
+  snapshotFormat: SnapshotFormat; // Falls back to JPEG where WebP encoding is unsupported
+  snapshotQuality: number; // Encoder quality (0-1)
+  snapshotMaxWidth: number; // Larger frames are scaled down (px)
+  maxSnapshots: number; // Oldest snapshots of a session are dropped beyond this
+}
+
+export const DEFAULT_EVIDENCE_CONFIG: EvidenceConfig = {
+  snapshotFormat: 'image/webp',
+  snapshotQuality: 0.8,
+  snapshotMaxWidth: 640,
+  maxSnapshots: 200,
+};
+
+// A captured piece of evidence held in memory
+export interface EvidenceItem extends EvidenceRef {
+  incidentId: string; // Incident it was captured for; overlapping incidents may share a clip
+  blob: Blob;
+  url: string; // Object URL for display
+  createdAt: number;
+  startTime?: number; // Time span covered by a clip
+  endTime?: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+// A video frame copied when it was sampled, scaled down for a snapshot
+export interface CapturedFrame {
+  canvas: HTMLCanvasElement;
+  videoWidth: number;
+  videoHeight: number;
+}
+
+/**
+ * Copy the current video frame. Called synchronously when a frame is
+ * sampled, so a snapshot shows the frame that triggered the incident rather
+ * than what the video shows once analysis has finished.
+ * @returns The copy, or null if the video has no frame yet
+ */
+export const captureFrame = (
+  videoElement: HTMLVideoElement,
+  config: EvidenceConfig = DEFAULT_EVIDENCE_CONFIG
+): CapturedFrame | null => {
+  const { videoWidth, videoHeight } = videoElement;
+  if (videoWidth === 0 || videoHeight === 0) return null;
+
+  const scale = Math.min(1, config.snapshotMaxWidth / videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(videoWidth * scale);
+  canvas.height = Math.round(videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+  return { canvas, videoWidth, videoHeight };
+};
+
+/**
+ * Encode a captured frame with the face boxes burned in
+ * @returns The encoded still
+ */
+export const captureSnapshot = async (
+  frame: CapturedFrame,
+  predictions: blazeface.NormalizedFace[] | null,
+  config: EvidenceConfig = DEFAULT_EVIDENCE_CONFIG
+): Promise<Blob | null> => {
+  const { videoWidth, videoHeight } = frame;
+  // Draw on a copy, since several incidents can share a frame
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.canvas.width;
+  canvas.height = frame.canvas.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(frame.canvas, 0, 0);
+
+  // drawDetections clears its canvas, so draw the boxes on an overlay first
+  if (predictions && predictions.length > 0) {
+    const overlay = document.createElement('canvas');
+    overlay.width = canvas.width;
+    overlay.height = canvas.height;
+    drawDetections(overlay, predictions, videoWidth, videoHeight);
+    ctx.drawImage(overlay, 0, 0);
+  }
+
+  const blob = await canvasToBlob(canvas, config.snapshotFormat, config.snapshotQuality);
+  // Browsers that cannot encode the format silently return PNG instead
+  if (blob && blob.type !== config.snapshotFormat && config.snapshotFormat !== 'image/jpeg') {
+    return canvasToBlob(canvas, 'image/jpeg', config.snapshotQuality);
+  }
+  return blob;
+};
+
+// URL of the incident's snapshot, if one was captured
+export const getSnapshotUrl = (
+  incident: Incident,
+  getEvidenceUrl?: (evidenceId: string) => string | null
+): string | null => {
+  const snapshot = incident.evidence?.find((evidence) => evidence.kind === 'snapshot');
+  return snapshot && getEvidenceUrl ? getEvidenceUrl(snapshot.id) : null;
+};
+
+// URLs of the incident's clip segments, in recording order
+export const getClipUrls = (
+  incident: Incident,
+  getEvidenceUrl?: (evidenceId: string) => string | null
+): string[] => {
+  if (!getEvidenceUrl) return [];
+  return (incident.evidence ?? [])
+    .filter((evidence) => evidence.kind === 'clip')
+    .map((evidence) => getEvidenceUrl(evidence.id))
+    .filter((url): url is string => Boolean(url));
+};
+
+/**
+ * In-memory store for captured evidence, keyed by evidence id
+ */
+export class EvidenceStore {
+  private items = new Map<string, EvidenceItem>();
+  private nextId = 1;
+
+  add(
+    incidentId: string,
+    kind: EvidenceRef['kind'],
+    blob: Blob,
+    span: { startTime?: number; endTime?: number } = {}
+  ): EvidenceItem {
+    const now = Date.now();
+    const item: EvidenceItem = {
+      id: `evidence-${now}-${this.nextId++}`,
+      kind,
+      incidentId,
+      blob,
+      url: URL.createObjectURL(blob),
+      createdAt: now,
+      ...span,
+    };
+    this.items.set(item.id, item);
+    return item;
+  }
+
+  /**
+   * Put back evidence saved by an earlier page load, with a fresh object URL
+   */
+  restore(saved: Omit<EvidenceItem, 'url'>): EvidenceItem {
+    const previous = this.items.get(saved.id);
+    if (previous) URL.revokeObjectURL(previous.url);
+    const item: EvidenceItem = {
+      id: saved.id,
+      kind: saved.kind,
+      incidentId: saved.incidentId,
+      blob: saved.blob,
+      url: URL.createObjectURL(saved.blob),
+      createdAt: saved.createdAt,
+      startTime: saved.startTime,
+      endTime: saved.endTime,
+    };
+    this.items.set(item.id, item);
+    return item;
+  }
+
+  get(id: string): EvidenceItem | null {
+    return this.items.get(id) ?? null;
+  }
+
+  /**
+   * A clip already kept for the same recording segment, so incidents with
+   * overlapping windows can refer to it instead of storing it again
+   */
+  findClip(startTime: number, endTime: number): EvidenceItem | null {
+    return Array.from(this.items.values()).find((item) =>
+      item.kind === 'clip' && item.startTime === startTime && item.endTime === endTime
+    ) ?? null;
+  }
+
+  /**
+   * Drop the oldest clips until the stored clips fit in the byte budget.
+   * Snapshots are small and always kept.
+   */
+  limitClipBytes(maxBytes: number): void {
+    const clips = Array.from(this.items.values())
+      .filter((item) => item.kind === 'clip')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    let total = clips.reduce((sum, item) => sum + item.blob.size, 0);
+    while (total > maxBytes && clips.length > 0) {
+      const oldest = clips.shift();
+      total -= oldest.blob.size;
+      URL.revokeObjectURL(oldest.url);
+      this.items.delete(oldest.id);
+    }
+  }
+
+  /**
+   * Drop the oldest snapshots beyond the given number
+   */
+  limitSnapshots(maxSnapshots: number): void {
+    const snapshots = Array.from(this.items.values())
+      .filter((item) => item.kind === 'snapshot')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    snapshots.slice(0, Math.max(0, snapshots.length - maxSnapshots)).forEach((item) => {
+      URL.revokeObjectURL(item.url);
+      this.items.delete(item.id);
+    });
+  }
+
+  getUrl(id: string): string | null {
+    return this.items.get(id)?.url ?? null;
+  }
+
+  /**
+   * Release every object URL
+   */
+  dispose(): void {
+    this.items.forEach((item) => URL.revokeObjectURL(item.url));
+    this.items.clear();
+  }
+}
@@ -0,0 +1,185 @@
+// Face predictions as plain arrays, safe to post between threads
+export interface SerializedFace {
+  topLeft: [number, number];
+  bottomRight: [number, number];
+  landmarks?: number[][];
+  probability?: number;
+}
+
+export interface FaceInferenceConfig {
+  maxFaces: number;
+  iouThreshold: number;
+  scoreThreshold: number;
+}
+
+// Messages sent to the inference worker
+export type FaceInferenceRequest =
+  | { type: 'init'; config: FaceInferenceConfig }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap };
+
+// Messages sent back by the inference worker
+export type FaceInferenceResponse =
+  | { type: 'ready' }
+  | { type: 'result'; id: number; faces: SerializedFace[]; inferenceTime: number }
+  | { type: 'error'; id?: number; message: string };
+
+export interface FaceInferenceResult {
+  faces: SerializedFace[];
+  inferenceTime: number; // ms spent in the worker
+}
+
+const FRAME_TIMEOUT = 5000; // ms before a frame the worker never answered is given up
+
+/**
+ * Check whether this browser can run inference off the main thread
+ */
+export const isWorkerInferenceSupported = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Runs BlazeFace in a Web Worker. Only one frame is in flight at a time;
+ * frames submitted while the worker is busy are dropped rather than queued.
+ * A frame in flight is rejected if the worker crashes, is terminated or does
+ * not answer in time, so the caller is never left waiting.
+ */
+export class FaceInferenceClient {
+  droppedFrames = 0;
+  processedFrames = 0;
+  private worker: Worker;
+  private nextId = 0;
+  private busy = false;
+  private pending: {
+    id: number;
+    resolve: (result: FaceInferenceResult) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private ready: Promise<void> | null = null;
+  private failure: Error | null = null; // Set once the worker crashed or was terminated
+
+  constructor() {
+    this.worker = new Worker(
+      new URL('../workers/faceInference.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    // Replaced during initialisation, and put back once the worker is ready
+    this.worker.onerror = this.handleError;
+    this.worker.onmessageerror = this.handleMessageError;
+  }
+
+  get isBusy(): boolean {
+    return this.busy;
+  }
+
+  // Once failed the client never answers again and should be replaced
+  get hasFailed(): boolean {
+    return this.failure !== null;
+  }
+
+  /**
+   * Load tfjs and BlazeFace inside the worker
+   */
+  initialize(config: FaceInferenceConfig): Promise<void> {
+    if (!this.ready) {
+      this.ready = new Promise((resolve, reject) => {
+        this.worker.onmessage = (event: MessageEvent<FaceInferenceResponse>) => {
+          const response = event.data;
+          if (response.type === 'ready') {
+            this.worker.onmessage = this.handleMessage;
+            this.worker.onerror = this.handleError;
+            resolve();
+          } else if (response.type === 'error') {
+            reject(new Error(response.message));
+          }
+        };
+        this.worker.onerror = (event) => {
+          const error = new Error(event.message || 'Face inference worker failed to start');
+          this.fail(error);
+          reject(error);
+        };
+        this.post({ type: 'init', config });
+      });
+    }
+    return this.ready;
+  }
+
+  /**
+   * Send the current video frame to the worker
+   * @returns The detected faces, or null if the frame was dropped
+   * @throws If the worker crashed, was terminated or did not answer in time
+   */
+  async detect(source: HTMLVideoElement): Promise<FaceInferenceResult | null> {
+    if (this.failure) throw this.failure;
+    if (this.busy) {
+      this.droppedFrames++;
+      return null;
+    }
+
+    this.busy = true;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const bitmap = await createImageBitmap(source);
+      // The worker may have gone while the bitmap was being made
+      if (this.failure) {
+        bitmap.close();
+        throw this.failure;
+      }
+      const id = this.nextId++;
+      const result = await new Promise<FaceInferenceResult>((resolve, reject) => {
+        this.pending = { id, resolve, reject };
+        // A worker that stops answering is treated as crashed
+        timeout = setTimeout(() => {
+          this.fail(new Error(`Face inference took longer than ${FRAME_TIMEOUT} ms`));
+        }, FRAME_TIMEOUT);
+        this.post({ type: 'frame', id, bitmap }, [bitmap]);
+      });
+      this.processedFrames++;
+      return result;
+    } finally {
+      clearTimeout(timeout);
+      this.pending = null;
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Stop the worker and reject any frame still in flight
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.fail(new Error('Face inference worker terminated'));
+  }
+
+  // Reject the frame in flight, and every later one
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  private handleError = (event: ErrorEvent) => {
+    this.fail(new Error(event.message || 'Face inference worker crashed'));
+  };
+
+  private handleMessageError = () => {
+    this.pending?.reject(new Error('Face inference result could not be read'));
+    this.pending = null;
+  };
+
+  private post(request: FaceInferenceRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer);
+  }
+
+  private handleMessage = (event: MessageEvent<FaceInferenceResponse>) => {
+    const response = event.data;
+    if (!this.pending || response.type === 'ready') return;
+    if (response.id !== undefined && response.id !== this.pending.id) return;
+
+    if (response.type === 'result') {
+      this.pending.resolve({ faces: response.faces, inferenceTime: response.inferenceTime });
+    } else {
+      this.pending.reject(new Error(response.message));
+    }
+  };
+}
@@ -0,0 +1,123 @@
+import {
+  brightnessStdDev,
+  createSamplingContext,
+  hashFrame,
+  laplacianVariance,
+  meanBrightness,
+  sampleGrayFrame,
+} from './frameUtils';
+
+export type FrameQualityIssue = 'feedFrozen' | 'cameraCovered' | 'tooDark' | 'outOfFocus';
+
+export interface FrameQualityConfig {
+  coveredContrast: number; // Contrast (brightness std dev) below which the frame is a flat blank
+  coveredBrightness: number; // A flat frame darker than this is a covered lens rather than a wall
+  darkBrightness: number; // Mean brightness (0-255) below which the room is too dark
+  outOfFocusSharpness: number; // Laplacian variance below which the image is blurred
+  frozenDuration: number; // ms of identical frames before the feed counts as frozen
+  issueDuration: number; // ms a condition must persist before it is reported
+}
+
+export const DEFAULT_FRAME_QUALITY_CONFIG: FrameQualityConfig = {
+  coveredContrast: 6,
+  coveredBrightness: 60,
+  darkBrightness: 35,
+  outOfFocusSharpness: 25,
+  frozenDuration: 2000,
+  issueDuration: 1000,
+};
+
+export interface FrameQuality {
+  brightness: number; // 0-255
+  contrast: number; // Brightness standard deviation
+  sharpness: number; // Laplacian variance
+  frozenFor: number; // ms the frame has not changed at all
+  issue: FrameQualityIssue | null; // Most severe condition that has persisted long enough
+}
+
+const SAMPLE_WIDTH = 160;
+const SAMPLE_HEIGHT = 120;
+
+// Checked in order; the first persistent issue wins. A covered or black
+// lens comes before frozen since its frames can be identical too.
+const ISSUE_PRIORITY: FrameQualityIssue[] = ['cameraCovered', 'tooDark', 'feedFrozen', 'outOfFocus'];
+
+/**
+ * Measures brightness, contrast, blur and frame repetition so that a covered
+ * lens, a dark room, a smeared lens or a frozen feed can be told apart from a
+ * student who simply left the frame
+ */
+export class FrameQualityAnalyzer {
+  config: FrameQualityConfig;
+  private context: CanvasRenderingContext2D | null = null;
+  private lastHash: number | null = null;
+  private unchangedSince: number | null = null;
+  private issueSince: Partial<Record<FrameQualityIssue, number>> = {};
+
+  constructor(config: Partial<FrameQualityConfig> = {}) {
+    this.config = { ...DEFAULT_FRAME_QUALITY_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<FrameQualityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Analyse the current video frame
+   * @returns The frame metrics, or null if the video has no frame yet
+   */
+  analyze(videoElement: HTMLVideoElement, now = Date.now()): FrameQuality | null {
+    if (!this.context) {
+      this.context = createSamplingContext(SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    }
+    if (!this.context || videoElement.videoWidth === 0) return null;
+
+    const gray = sampleGrayFrame(this.context, videoElement);
+    const brightness = meanBrightness(gray);
+    const contrast = brightnessStdDev(gray);
+    const sharpness = laplacianVariance(gray, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    // A live sensor never produces two bit-identical frames
+    const hash = hashFrame(gray);
+    if (hash !== this.lastHash || this.unchangedSince === null) {
+      this.lastHash = hash;
+      this.unchangedSince = now;
+    }
+    const frozenFor = now - this.unchangedSince;
+
+    const { config } = this;
+    const flat = contrast < config.coveredContrast;
+    const covered = flat && brightness < config.coveredBrightness;
+    const active: Record<FrameQualityIssue, boolean> = {
+      // A covered sensor can output the same black frame over and over
+      feedFrozen: !covered && frozenFor >= config.frozenDuration,
+      cameraCovered: covered,
+      tooDark: !flat && brightness < config.darkBrightness,
+      outOfFocus: !flat && brightness >= config.darkBrightness && sharpness < config.outOfFocusSharpness,
+    };
+
+    // Track how long each condition has held so a passing shadow is not reported
+    let issue: FrameQualityIssue | null = null;
+    ISSUE_PRIORITY.forEach((candidate) => {
+      if (!active[candidate]) {
+        delete this.issueSince[candidate];
+        return;
+      }
+      this.issueSince[candidate] ??= now;
+      // Frozen frames already have their own duration threshold
+      const persisted = candidate === 'feedFrozen' ||
+        now - this.issueSince[candidate] >= config.issueDuration;
+      if (!issue && persisted) {
+        issue = candidate;
+      }
+    });
+
+    return { brightness, contrast, sharpness, frozenFor, issue };
+  }
+
+  reset(): void {
+    this.lastHash = null;
+    this.unchangedSince = null;
+    this.issueSince = {};
+  }
+}
@@ -0,0 +1,111 @@
+// Helpers for cheap pixel-level analysis of video frames
+
+export type GrayFrame = Uint8ClampedArray;
+
+/**
+ * Create a small canvas context used to downsample frames
+ */
+export const createSamplingContext = (
+  width: number,
+  height: number
+): CanvasRenderingContext2D | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+/**
+ * Draw a region of the video into the sampling context and return it as grayscale
+ * @param region Source rectangle [x, y, width, height]; defaults to the whole frame
+ */
+export const sampleGrayFrame = (
+  ctx: CanvasRenderingContext2D,
+  videoElement: HTMLVideoElement,
+  region?: [number, number, number, number]
+): GrayFrame => {
+  const { width, height } = ctx.canvas;
+  const [sx, sy, sw, sh] = region ?? [0, 0, videoElement.videoWidth, videoElement.videoHeight];
+  ctx.drawImage(videoElement, sx, sy, sw, sh, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    // Rec. 601 luma
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+/**
+ * Average brightness of a grayscale frame (0-255)
+ */
+export const meanBrightness = (gray: GrayFrame): number => {
+  if (gray.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i];
+  }
+  return sum / gray.length;
+};
+
+/**
+ * Mean absolute per-pixel difference between two frames of the same size
+ */
+export const meanAbsDifference = (a: GrayFrame, b: GrayFrame): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+};
+
+/**
+ * 32-bit FNV-1a hash of the frame. Identical frames hash identically; a live
+ * camera's sensor noise makes exact repeats practically impossible.
+ */
+export const hashFrame = (gray: GrayFrame): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < gray.length; i++) {
+    hash ^= gray[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Standard deviation of pixel brightness, a simple measure of contrast
+ */
+export const brightnessStdDev = (gray: GrayFrame): number => {
+  if (gray.length === 0) return 0;
+  const mean = meanBrightness(gray);
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    sum += (gray[i] - mean) ** 2;
+  }
+  return Math.sqrt(sum / gray.length);
+};
+
+/**
+ * Variance of the 4-neighbour Laplacian. Sharp frames have strong edges and a
+ * high variance; blurred or smeared frames have a low one.
+ */
+export const laplacianVariance = (gray: GrayFrame, width: number, height: number): number => {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
@@ -0,0 +1,98 @@
+import * as blazeface from '@tensorflow-models/blazeface';
+
+// Head orientation in degrees. Positive yaw turns towards the image's right,
+// positive pitch tilts the face down and positive roll tilts it clockwise.
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+type Point = [number, number];
+
+// BlazeFace landmark order
+const RIGHT_EYE = 0;
+const LEFT_EYE = 1;
+const NOSE = 2;
+const MOUTH = 3;
+const RIGHT_EAR = 4;
+const LEFT_EAR = 5;
+
+// Where the nose sits between the eye line and the mouth for a frontal face
+const NEUTRAL_NOSE_RATIO = 0.45;
+const PITCH_RATIO_RANGE = 0.45; // Ratio offset that maps to roughly 90 degrees
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Convert BlazeFace landmarks to a plain array of points
+ */
+export const getLandmarkPoints = (face: blazeface.NormalizedFace): Point[] | null => {
+  if (!face.landmarks) return null;
+
+  const landmarks = Array.isArray(face.landmarks)
+    ? face.landmarks
+    : face.landmarks.arraySync();
+
+  if (landmarks.length < 6) return null;
+  return landmarks.map((landmark) => [landmark[0], landmark[1]] as Point);
+};
+
+/**
+ * Estimate yaw, pitch and roll of a face from its six BlazeFace landmarks
+ */
+export const estimateHeadPose = (landmarks: Point[]): HeadPose | null => {
+  if (landmarks.length < 6) return null;
+
+  const rightEye = landmarks[RIGHT_EYE];
+  const leftEye = landmarks[LEFT_EYE];
+  const nose = landmarks[NOSE];
+  const mouth = landmarks[MOUTH];
+  const rightEar = landmarks[RIGHT_EAR];
+  const leftEar = landmarks[LEFT_EAR];
+
+  // Roll is the tilt of the line between the eyes
+  const eyeDx = leftEye[0] - rightEye[0];
+  const eyeDy = leftEye[1] - rightEye[1];
+  const eyeDistance = Math.sqrt(eyeDx * eyeDx + eyeDy * eyeDy);
+  if (eyeDistance === 0) return null;
+
+  const rollRadians = Math.atan2(eyeDy, eyeDx);
+  const cos = Math.cos(-rollRadians);
+  const sin = Math.sin(-rollRadians);
+
+  // Rotate every point around the eye midpoint so the eyes are level
+  const eyeMid: Point = [(rightEye[0] + leftEye[0]) / 2, (rightEye[1] + leftEye[1]) / 2];
+  const level = (point: Point): Point => {
+    const dx = point[0] - eyeMid[0];
+    const dy = point[1] - eyeMid[1];
+    return [dx * cos - dy * sin, dx * sin + dy * cos];
+  };
+
+  const levelNose = level(nose);
+  const levelMouth = level(mouth);
+  const levelRightEar = level(rightEar);
+  const levelLeftEar = level(leftEar);
+
+  // Yaw: the nose moves towards one ear as the head turns
+  const earSpan = levelLeftEar[0] - levelRightEar[0];
+  let yaw = 0;
+  if (earSpan !== 0) {
+    const noseRatio = (levelNose[0] - levelRightEar[0]) / earSpan;
+    yaw = toDegrees(Math.asin(clamp(noseRatio * 2 - 1, -1, 1)));
+  }
+
+  // Pitch: the nose moves towards the eyes or the mouth as the head tilts
+  let pitch = 0;
+  if (levelMouth[1] !== 0) {
+    const noseRatio = levelNose[1] / levelMouth[1];
+    pitch = toDegrees(Math.asin(clamp((noseRatio - NEUTRAL_NOSE_RATIO) / PITCH_RATIO_RANGE, -1, 1)));
+  }
+
+  return {
+    yaw,
+    pitch,
+    roll: toDegrees(rollRadians),
+  };
+};
@@ -0,0 +1,251 @@
+import * as tf from '@tensorflow/tfjs';
+import * as blazeface from '@tensorflow-models/blazeface';
+import * as faceapi from '@vladmandic/face-api/dist/face-api.esm-nobundle.js';
+// Recognition weights ship with the app as static assets, so nothing is fetched from the network
+import weightsManifestUrl from '@vladmandic/face-api/model/face_recognition_model-weights_manifest.json?url';
+import weightsUrl from '@vladmandic/face-api/model/face_recognition_model.bin?url';
+import type { FrameAnalysis } from './detectionUtils';
+
+export interface IdentityConfig {
+  enrollmentSamples: number; // Embeddings averaged into the enrolled identity
+  enrollmentInterval: number; // ms between enrollment samples
+  checkInterval: number; // ms between identity checks once enrolled
+  similarityThreshold: number; // Below this the face counts as a different person (0-1)
+  consecutiveMismatches: number; // Failed checks in a row before raising a mismatch
+}
+
+export const DEFAULT_IDENTITY_CONFIG: IdentityConfig = {
+  enrollmentSamples: 3,
+  enrollmentInterval: 500,
+  checkInterval: 5000,
+  similarityThreshold: 0.4, // Equivalent to the usual 0.6 descriptor distance
+  consecutiveMismatches: 2,
+};
+
+export type IdentityState = 'unavailable' | 'enrolling' | 'verified' | 'mismatch';
+
+export interface IdentityCheck {
+  state: IdentityState;
+  similarity: number | null; // Similarity of the latest check to the enrolled face (0-1)
+  identityMismatch: boolean;
+  timestamp: number;
+}
+
+// The enrolled face, kept with the session so a reload does not enroll whoever is on camera then
+export interface IdentityEnrollment {
+  descriptor: number[];
+  snapshot: string | null; // Data URL of the enrolled face crop
+}
+
+const FACE_CROP_SIZE = 150; // Input size of the recognition network
+const FACE_CROP_MARGIN = 0.2; // Extra space around the BlazeFace box
+
+/**
+ * Load the face recognition network from the bundled weights
+ */
+const loadRecognitionNet = async (): Promise<faceapi.FaceRecognitionNet> => {
+  const manifest: tf.io.WeightsManifestConfig = await (await fetch(weightsManifestUrl)).json();
+  const buffer = await (await fetch(weightsUrl)).arrayBuffer();
+  const weightMap = tf.io.decodeWeights(buffer, manifest.flatMap((group) => group.weights));
+
+  // face-api declares its own copy of the tfjs types; at runtime the no-bundle
+  // build shares our tfjs instance, so the tensors are interchangeable
+  const net = new faceapi.FaceRecognitionNet();
+  net.loadFromWeightMap(weightMap as unknown as Parameters<typeof net.loadFromWeightMap>[0]);
+  return net;
+};
+
+/**
+ * Crop a face from the video into a square canvas for the recognition network
+ */
+export const cropFace = (
+  videoElement: HTMLVideoElement,
+  face: blazeface.NormalizedFace,
+  size = FACE_CROP_SIZE
+): HTMLCanvasElement => {
+  const topLeft = face.topLeft as [number, number];
+  const bottomRight = face.bottomRight as [number, number];
+  const width = bottomRight[0] - topLeft[0];
+  const height = bottomRight[1] - topLeft[1];
+  const side = Math.max(width, height) * (1 + FACE_CROP_MARGIN * 2);
+  const centerX = topLeft[0] + width / 2;
+  const centerY = topLeft[1] + height / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  ctx?.drawImage(
+    videoElement,
+    centerX - side / 2,
+    centerY - side / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size
+  );
+  return canvas;
+};
+
+/**
+ * Similarity of two face descriptors, 1 for identical and 0 at distance 1 or more
+ */
+export const descriptorSimilarity = (a: Float32Array, b: Float32Array): number =>
+  Math.max(0, 1 - faceapi.euclideanDistance(a, b));
+
+/**
+ * Enrolls the student's face at session start and periodically checks that
+ * the person in front of the camera is still the same one
+ */
+export class IdentityVerifier {
+  config: IdentityConfig;
+  enrollmentSnapshot: string | null = null; // Data URL of the enrolled face crop
+  private net: faceapi.FaceRecognitionNet | null = null;
+  private enrolled: Float32Array | null = null;
+  private enrollment: Float32Array[] = [];
+  private lastSampleTime = 0;
+  private mismatchCount = 0;
+  private lastCheck: IdentityCheck | null = null;
+  private busy = false;
+
+  constructor(config: Partial<IdentityConfig> = {}) {
+    this.config = { ...DEFAULT_IDENTITY_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<IdentityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get isReady(): boolean {
+    return this.net !== null;
+  }
+
+  get isEnrolled(): boolean {
+    return this.enrolled !== null;
+  }
+
+  /**
+   * Load the recognition network
+   */
+  async initialize(): Promise<void> {
+    if (!this.net) {
+      this.net = await loadRecognitionNet();
+    }
+  }
+
+  /**
+   * Feed the latest frame. Enrolls until enough samples are collected, then
+   * checks the face every `checkInterval` ms.
+   * @returns The latest identity check
+   */
+  async update(
+    videoElement: HTMLVideoElement,
+    analysis: FrameAnalysis,
+    now = Date.now()
+  ): Promise<IdentityCheck> {
+    if (!this.net) {
+      return { state: 'unavailable', similarity: null, identityMismatch: false, timestamp: now };
+    }
+
+    const interval = this.enrolled ? this.config.checkInterval : this.config.enrollmentInterval;
+    const due = now - this.lastSampleTime >= interval;
+
+    // Only a single clearly visible face can be compared
+    if (this.busy || !due || analysis.faceCount !== 1 || !analysis.predictions) {
+      return this.lastCheck ?? this.enrollingCheck(now);
+    }
+
+    this.busy = true;
+    this.lastSampleTime = now;
+    try {
+      const crop = cropFace(videoElement, analysis.predictions[0]);
+      const descriptor = await this.net.computeFaceDescriptor(crop) as Float32Array;
+
+      if (!this.enrolled) {
+        this.enroll(descriptor, crop);
+        this.lastCheck = this.enrolled
+          ? { state: 'verified', similarity: 1, identityMismatch: false, timestamp: now }
+          : this.enrollingCheck(now);
+        return this.lastCheck;
+      }
+
+      const similarity = descriptorSimilarity(this.enrolled, descriptor);
+      this.mismatchCount = similarity < this.config.similarityThreshold ? this.mismatchCount + 1 : 0;
+      const identityMismatch = this.mismatchCount >= this.config.consecutiveMismatches;
+
+      this.lastCheck = {
+        state: identityMismatch ? 'mismatch' : 'verified',
+        similarity,
+        identityMismatch,
+        timestamp: now,
+      };
+      return this.lastCheck;
+    } catch (error) {
+      console.error('Error verifying identity:', error);
+      return this.lastCheck ?? this.enrollingCheck(now);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * The enrolled face, or null while still enrolling
+   */
+  getEnrollment(): IdentityEnrollment | null {
+    if (!this.enrolled) return null;
+    return { descriptor: Array.from(this.enrolled), snapshot: this.enrollmentSnapshot };
+  }
+
+  /**
+   * Check against a face enrolled earlier, e.g. before the page was reloaded.
+   * Without one the next frames enroll again.
+   */
+  restoreEnrollment(enrollment: IdentityEnrollment | null): void {
+    this.reset();
+    if (!enrollment) return;
+    this.enrolled = Float32Array.from(enrollment.descriptor);
+    this.enrollmentSnapshot = enrollment.snapshot;
+  }
+
+  /**
+   * Forget the enrolled face so the next frames enroll again
+   */
+  reset(): void {
+    this.enrolled = null;
+    this.enrollment = [];
+    this.enrollmentSnapshot = null;
+    this.lastSampleTime = 0;
+    this.mismatchCount = 0;
+    this.lastCheck = null;
+  }
+
+  dispose(): void {
+    this.reset();
+    this.net?.dispose();
+    this.net = null;
+  }
+
+  private enroll(descriptor: Float32Array, crop: HTMLCanvasElement) {
+    if (this.enrollment.length === 0) {
+      this.enrollmentSnapshot = crop.toDataURL('image/jpeg', 0.85);
+    }
+    this.enrollment.push(descriptor);
+    if (this.enrollment.length < this.config.enrollmentSamples) return;
+
+    // Average the samples into a single reference descriptor
+    const average = new Float32Array(descriptor.length);
+    this.enrollment.forEach((sample) => {
+      sample.forEach((value, i) => {
+        average[i] += value / this.enrollment.length;
+      });
+    });
+    this.enrolled = average;
+    this.enrollment = [];
+  }
+
+  private enrollingCheck(now: number): IdentityCheck {
+    return { state: 'enrolling', similarity: null, identityMismatch: false, timestamp: now };
+  }
+}
@@ -0,0 +1,79 @@
+import type { DetectionCategory } from './detectionUtils';
+
+export type IncidentSeverity = 'warning' | 'danger';
+
+// Raw measurements behind an incident, e.g. { faceCount: 2 } or { similarity: 0.31 }
+export type IncidentMetrics = Record<string, number | string | boolean | null>;
+
+// Points at stored evidence such as a snapshot or a video clip
+export interface EvidenceRef {
+  kind: 'snapshot' | 'clip';
+  id: string;
+}
+
+/**
+ * One continuous stretch of suspicious activity
+ */
+export interface Incident {
+  id: string;
+  category: DetectionCategory; // Stable code; the message may change while it is active
+  severity: IncidentSeverity; // Highest severity reached
+  message: string; // Latest human-readable description
+  startTime: number; // When the condition was first seen (ms since epoch)
+  endTime: number | null; // When it was last seen, or null while ongoing
+  confidence: number; // Highest confidence seen while active (0-1)
+  metrics: IncidentMetrics; // Measurements when the incident was raised or last escalated
+  evidence?: EvidenceRef[];
+}
+
+/**
+ * How long an incident has lasted so far (ms)
+ */
+export const getIncidentDuration = (incident: Incident, now = Date.now()): number =>
+  Math.max(0, (incident.endTime ?? now) - incident.startTime);
+
+/**
+ * Short duration label such as "4s" or "2m 05s"
+ */
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+/**
+ * Merge updated incidents into a list, newest first. Incidents already in
+ * the list are replaced in place; new ones are added to the front.
+ */
+export const upsertIncidents = (incidents: Incident[], updates: Incident[]): Incident[] => {
+  if (updates.length === 0) return incidents;
+
+  const byId = new Map(updates.map((incident) => [incident.id, incident]));
+  const merged = incidents.map((incident) => {
+    const update = byId.get(incident.id);
+    if (!update) return incident;
+    byId.delete(incident.id);
+    return update;
+  });
+  const added = Array.from(byId.values()).sort((a, b) => b.startTime - a.startTime);
+  return [...added, ...merged];
+};
+
+// Short names for each category, for reports and summaries
+export const CATEGORY_LABELS: Record<DetectionCategory, string> = {
+  feedFrozen: 'Frozen camera feed',
+  cameraCovered: 'Camera covered',
+  tooDark: 'Too dark',
+  outOfFocus: 'Out of focus',
+  faceAbsent: 'Face not visible',
+  multipleFaces: 'Multiple faces',
+  identityMismatch: 'Identity mismatch',
+  liveness: 'Liveness check',
+  prohibitedObject: 'Prohibited object',
+  lookingAway: 'Looking away',
+  audio: 'Talking',
+  multipleVoices: 'Multiple voices',
+  microphone: 'Microphone problem',
+  pageReload: 'Page reload',
+};
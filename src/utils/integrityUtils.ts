@@ -0,0 +1,365 @@
+import type { Incident } from './incidentUtils';
+import type { SessionStore } from './sessionStore';
+
+export type LogEntryBody =
+  | { type: 'sessionStart'; publicKey: JsonWebKey } // First entry; names the key that signs the rest
+  | { type: 'incident'; incident: Incident } // State of an incident after it changed
+  | { type: 'sessionEnd'; incidentCount: number }; // Last entry of a finished session
+
+/**
+ * One entry of the append-only incident log. Each entry includes the hash of
+ * the one before it, and is signed with the session's private key.
+ */
+export type LogEntry = LogEntryBody & {
+  sessionId: string;
+  sequence: number; // 0 for sessionStart, then consecutive
+  timestamp: number;
+  previousHash: string; // Hex SHA-256 of the previous entry, GENESIS_HASH for the first
+  hash: string; // Hex SHA-256 of this entry without hash and signature
+  signature: string; // Hex ECDSA P-256 signature over the hash
+};
+
+export type ChainBreakReason =
+  | 'empty'
+  | 'missingStart'
+  | 'keyMismatch'
+  | 'untrustedKey'
+  | 'sessionMismatch'
+  | 'sequenceGap'
+  | 'previousHashMismatch'
+  | 'hashMismatch'
+  | 'badSignature'
+  | 'truncated'
+  | 'incidentMismatch'
+  | 'incidentMissing';
+
+// Where and why verification failed
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  sequence: number | null; // Index of the first bad entry, null when not tied to one
+  incidentId?: string;
+  message: string;
+}
+
+export interface LogVerification {
+  valid: boolean;
+  entryCount: number;
+  verifiedCount: number; // Entries checked before the first break
+  break: ChainBreak | null;
+}
+
+export const LOG_ALGORITHM = 'ECDSA-P256-SHA256';
+export const GENESIS_HASH = '0'.repeat(64);
+
+const SIGNING_KEY: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  const pairs = hex.match(/[0-9a-f]{2}/gi) ?? [];
+  return new Uint8Array(pairs.map((pair) => parseInt(pair, 16)));
+};
+
+/**
+ * JSON with object keys sorted, so the same value always hashes the same
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256 = async (text: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+/**
+ * The incident fields covered by the log, without storage or report extras
+ */
+export const toIncidentRecord = (incident: Incident): Incident => ({
+  id: incident.id,
+  category: incident.category,
+  severity: incident.severity,
+  message: incident.message,
+  startTime: incident.startTime,
+  endTime: incident.endTime,
+  confidence: incident.confidence,
+  metrics: incident.metrics,
+  evidence: incident.evidence,
+});
+
+const hashEntry = ({ hash: _hash, signature: _signature, ...content }: LogEntry): Promise<string> =>
+  sha256(canonicalJson(content));
+
+/**
+ * Short hex fingerprint of a public key, for comparing against a copy kept elsewhere
+ */
+export const getKeyFingerprint = async (publicKey: JsonWebKey): Promise<string> => {
+  const { kty, crv, x, y } = publicKey;
+  const digest = await sha256(canonicalJson({ kty, crv, x, y }));
+  return digest.slice(0, 32).match(/.{4}/g).join(':');
+};
+
+/**
+ * Compare fingerprints by their hex digits, ignoring case and separators
+ */
+export const isSameFingerprint = (a: string, b: string): boolean => {
+  const digits = (fingerprint: string) => fingerprint.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return digits(a).length > 0 && digits(a) === digits(b);
+};
+
+/**
+ * Writes the incident log of one session. Entries are appended strictly in
+ * call order; each is hashed, chained to the previous entry and signed.
+ *
+ * The private key cannot be exported, but it stays in this browser's
+ * IndexedDB until the log is closed, and anyone with devtools can sign with
+ * it meanwhile. Checking the key fingerprint against one recorded elsewhere
+ * at session start rules out a replaced key, not entries signed in the
+ * student's own browser while the session was open.
+ */
+export class IncidentLog {
+  readonly sessionId: string;
+  private store: SessionStore;
+  private queue: Promise<unknown> = Promise.resolve();
+  private privateKey: CryptoKey | null = null;
+  private head: LogEntry | null = null;
+  private logged = new Map<string, string>(); // Canonical JSON of each incident's last entry
+  private closed = false;
+
+  constructor(store: SessionStore, sessionId: string) {
+    this.store = store;
+    this.sessionId = sessionId;
+  }
+
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+  }
+
+  /**
+   * Generate the session key pair and write the first entry
+   * @returns The public key that verifies the log
+   */
+  start(now = Date.now()): Promise<JsonWebKey> {
+    return this.enqueue(async () => {
+      const keyPair = await crypto.subtle.generateKey(SIGNING_KEY, false, ['sign', 'verify']);
+      const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+      await this.store.saveSigningKey(this.sessionId, keyPair.privateKey);
+      this.privateKey = keyPair.privateKey;
+      await this.write({ type: 'sessionStart', publicKey }, now);
+      return publicKey;
+    });
+  }
+
+  /**
+   * Continue the log of a session interrupted by a page reload
+   * @returns The last logged state of each incident
+   */
+  resume(): Promise<Incident[]> {
+    return this.enqueue(async () => {
+      const [privateKey, entries] = await Promise.all([
+        this.store.getSigningKey(this.sessionId),
+        this.store.getLogEntries(this.sessionId),
+      ]);
+      if (!privateKey || entries.length === 0) {
+        throw new Error(`No incident log to resume for ${this.sessionId}`);
+      }
+      this.privateKey = privateKey;
+      this.head = entries[entries.length - 1];
+      const incidents = new Map<string, Incident>();
+      entries.forEach((entry) => {
+        if (entry.type !== 'incident') return;
+        incidents.set(entry.incident.id, entry.incident);
+        this.logged.set(entry.incident.id, canonicalJson(entry.incident));
+      });
+      return Array.from(incidents.values());
+    });
+  }
+
+  /**
+   * Record the current state of an incident
+   */
+  append(incident: Incident, now = Date.now()): Promise<LogEntry> {
+    return this.enqueue(() => this.write({ type: 'incident', incident: toIncidentRecord(incident) }, now));
+  }
+
+  /**
+   * Record each incident whose state differs from its last entry, e.g. one
+   * saved just before a reload cut off its log entry
+   */
+  appendChanged(incidents: Incident[], now = Date.now()): Promise<LogEntry[]> {
+    return this.enqueue(async () => {
+      const entries: LogEntry[] = [];
+      for (const incident of incidents) {
+        const record = toIncidentRecord(incident);
+        if (this.logged.get(record.id) === canonicalJson(record)) continue;
+        entries.push(await this.write({ type: 'incident', incident: record }, now));
+      }
+      return entries;
+    });
+  }
+
+  /**
+   * Write the closing entry and delete the private key; later appends are rejected
+   */
+  close(now = Date.now()): Promise<LogEntry> {
+    return this.enqueue(async () => {
+      const entry = await this.write({ type: 'sessionEnd', incidentCount: this.logged.size }, now);
+      this.closed = true;
+      this.privateKey = null;
+      await this.store.deleteSigningKey(this.sessionId);
+      return entry;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    // A failed entry must not block the ones after it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(body: LogEntryBody, now: number): Promise<LogEntry> {
+    if (this.closed) throw new Error('Incident log is closed');
+    if (!this.privateKey) throw new Error('Incident log has not been started');
+
+    const entry = {
+      ...body,
+      sessionId: this.sessionId,
+      sequence: this.head ? this.head.sequence + 1 : 0,
+      timestamp: now,
+      previousHash: this.head?.hash ?? GENESIS_HASH,
+      hash: '',
+      signature: '',
+    } as LogEntry;
+    entry.hash = await hashEntry(entry);
+    entry.signature = toHex(await crypto.subtle.sign(SIGNATURE, this.privateKey, encoder.encode(entry.hash)));
+
+    await this.store.appendLogEntry(entry);
+    this.head = entry;
+    if (entry.type === 'incident') this.logged.set(entry.incident.id, canonicalJson(entry.incident));
+    return entry;
+  }
+}
+
+const broken = (
+  entryCount: number,
+  verifiedCount: number,
+  reason: ChainBreakReason,
+  sequence: number | null,
+  message: string,
+  incidentId?: string
+): LogVerification => ({
+  valid: false,
+  entryCount,
+  verifiedCount,
+  break: { reason, sequence, incidentId, message },
+});
+
+/**
+ * Check a log entry by entry: sequence numbers, hash links, entry hashes and
+ * signatures. Stops at the first problem and reports where it is.
+ * @param expectEnd Whether the log must finish with a sessionEnd entry
+ */
+export const verifyIncidentLog = async (
+  entries: LogEntry[],
+  publicKey: JsonWebKey,
+  expectEnd = false
+): Promise<LogVerification> => {
+  const count = entries.length;
+  if (count === 0) return broken(0, 0, 'empty', null, 'The log has no entries.');
+
+  const first = entries[0];
+  if (first.type !== 'sessionStart') {
+    return broken(count, 0, 'missingStart', first.sequence, 'The log does not begin with a session start entry.');
+  }
+  if (canonicalJson(first.publicKey) !== canonicalJson(publicKey)) {
+    return broken(count, 0, 'keyMismatch', 0, 'The log was started with a different key.');
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey('jwk', publicKey, SIGNING_KEY, false, ['verify']);
+  } catch {
+    return broken(count, 0, 'keyMismatch', 0, 'The public key is not a valid P-256 key.');
+  }
+
+  for (let index = 0; index < count; index++) {
+    const entry = entries[index];
+    if (entry.sessionId !== first.sessionId) {
+      return broken(count, index, 'sessionMismatch', index, `Entry ${index} belongs to session ${entry.sessionId}.`);
+    }
+    if (entry.sequence !== index) {
+      return broken(count, index, 'sequenceGap', index, `Expected entry ${index} but found entry ${entry.sequence}; entries were removed or reordered.`);
+    }
+    const previousHash = index === 0 ? GENESIS_HASH : entries[index - 1].hash;
+    if (entry.previousHash !== previousHash) {
+      return broken(count, index, 'previousHashMismatch', index, `Entry ${index} does not link to the entry before it.`);
+    }
+    if (await hashEntry(entry) !== entry.hash) {
+      return broken(count, index, 'hashMismatch', index, `Entry ${index} was modified after it was written.`);
+    }
+    const signed = await crypto.subtle.verify(SIGNATURE, key, fromHex(entry.signature), encoder.encode(entry.hash));
+    if (!signed) {
+      return broken(count, index, 'badSignature', index, `Entry ${index} is not signed by the session key.`);
+    }
+  }
+
+  if (expectEnd && entries[count - 1].type !== 'sessionEnd') {
+    return broken(count, count, 'truncated', null, 'The log stops before the session end entry; later entries may have been removed.');
+  }
+  return { valid: true, entryCount: count, verifiedCount: count, break: null };
+};
+
+/**
+ * Check that a list of incidents matches the final state recorded in a log
+ * @returns The first difference, or null if they match
+ */
+export const compareIncidentsWithLog = (incidents: Incident[], entries: LogEntry[]): ChainBreak | null => {
+  const logged = new Map<string, { incident: Incident; sequence: number }>();
+  entries.forEach((entry) => {
+    if (entry.type === 'incident') logged.set(entry.incident.id, { incident: entry.incident, sequence: entry.sequence });
+  });
+
+  for (const incident of incidents) {
+    const entry = logged.get(incident.id);
+    if (!entry) {
+      return {
+        reason: 'incidentMismatch',
+        sequence: null,
+        incidentId: incident.id,
+        message: `Incident ${incident.id} does not appear in the log.`,
+      };
+    }
+    if (canonicalJson(toIncidentRecord(incident)) !== canonicalJson(entry.incident)) {
+      return {
+        reason: 'incidentMismatch',
+        sequence: entry.sequence,
+        incidentId: incident.id,
+        message: `Incident ${incident.id} differs from its last log entry.`,
+      };
+    }
+    logged.delete(incident.id);
+  }
+
+  const [missing] = logged.values();
+  return missing
+    ? {
+      reason: 'incidentMissing',
+      sequence: missing.sequence,
+      incidentId: missing.incident.id,
+      message: `Incident ${missing.incident.id} is in the log but missing from the record.`,
+    }
+    : null;
+};
@@ -0,0 +1,252 @@
+import type { FrameAnalysis } from './detectionUtils';
+import { getLandmarkPoints } from './headPoseUtils';
+import {
+  GrayFrame,
+  createSamplingContext,
+  hashFrame,
+  meanAbsDifference,
+  meanBrightness,
+  sampleGrayFrame,
+} from './frameUtils';
+
+export interface LivenessConfig {
+  windowDuration: number; // ms of history each signal is judged over
+  staticDifferenceThreshold: number; // Mean frame difference (0-255) below which the feed counts as static
+  microMotionThreshold: number; // Landmark jitter, as a fraction of face width, below which the face counts as rigid
+  minBlinksPerWindow: number; // People blink 10-20 times a minute; a photo never does
+  blinkDeviation: number; // Standard deviations of eye-region change that count as a blink
+  maxBlinkDuration: number; // ms
+  replayMinGap: number; // A repeated frame must be at least this old (ms) to count as a replay
+  replayMinRepeats: number; // Repeated frames within the window before flagging a replay
+}
+
+export const DEFAULT_LIVENESS_CONFIG: LivenessConfig = {
+  windowDuration: 30000,
+  staticDifferenceThreshold: 0.5,
+  microMotionThreshold: 0.002,
+  minBlinksPerWindow: 1,
+  blinkDeviation: 2.5,
+  maxBlinkDuration: 500,
+  replayMinGap: 1000,
+  replayMinRepeats: 5,
+};
+
+export interface LivenessResult {
+  blinkCount: number; // Blinks seen during the window
+  microMotion: number; // Landmark jitter as a fraction of face width
+  frameDifference: number; // Mean frame-to-frame pixel difference (0-255)
+  repeatedFrames: number; // Frames that exactly repeat an earlier frame
+  staticFeed: boolean;
+  replayDetected: boolean;
+  noLifeSigns: boolean; // No blinks and no natural micro-motion
+  livenessSuspect: boolean;
+  ready: boolean; // Enough history has been collected to judge
+}
+
+interface TimedValue {
+  value: number;
+  timestamp: number;
+}
+
+const FRAME_SAMPLE_SIZE: [number, number] = [32, 24];
+const EYE_SAMPLE_SIZE = 8;
+const EYE_PATCH_RATIO = 0.35; // Eye patch size as a fraction of eye distance
+const BRIGHTNESS_SMOOTHING = 0.1;
+
+const trimWindow = <T extends { timestamp: number }>(values: T[], since: number) => {
+  while (values.length > 0 && values[0].timestamp < since) {
+    values.shift();
+  }
+};
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+/**
+ * Looks for signs that the video feed is a photo, a frozen image or a looped
+ * recording instead of a live person: blinking, natural micro-motion,
+ * frame-to-frame pixel change and exactly repeating frames
+ */
+export class LivenessAnalyzer {
+  config: LivenessConfig;
+  private frameContext: CanvasRenderingContext2D | null = null;
+  private eyeContext: CanvasRenderingContext2D | null = null;
+  private startTime: number | null = null;
+  private previousFrame: GrayFrame | null = null;
+  private differences: TimedValue[] = [];
+  private frameHashes: TimedValue[] = [];
+  private repeats: TimedValue[] = [];
+  private nosePositions: { x: number; y: number; timestamp: number }[] = [];
+  private blinks: TimedValue[] = [];
+  private eyeMean: number | null = null;
+  private eyeVariance = 0;
+  private blinkStart: number | null = null;
+
+  constructor(config: Partial<LivenessConfig> = {}) {
+    this.config = { ...DEFAULT_LIVENESS_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<LivenessConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Feed the latest frame and its face analysis
+   */
+  update(videoElement: HTMLVideoElement, analysis: FrameAnalysis, now = Date.now()): LivenessResult {
+    if (!this.frameContext) {
+      this.frameContext = createSamplingContext(...FRAME_SAMPLE_SIZE);
+      this.eyeContext = createSamplingContext(EYE_SAMPLE_SIZE, EYE_SAMPLE_SIZE);
+    }
+    if (this.startTime === null) {
+      this.startTime = now;
+    }
+
+    const since = now - this.config.windowDuration;
+    if (this.frameContext && videoElement.videoWidth > 0) {
+      this.trackFrame(sampleGrayFrame(this.frameContext, videoElement), now);
+    }
+    if (analysis.faceCount === 1 && analysis.predictions) {
+      this.trackFace(videoElement, analysis, now);
+    }
+
+    trimWindow(this.differences, since);
+    trimWindow(this.frameHashes, since);
+    trimWindow(this.repeats, since);
+    trimWindow(this.nosePositions, since);
+    trimWindow(this.blinks, since);
+
+    return this.evaluate(now);
+  }
+
+  reset(): void {
+    this.startTime = null;
+    this.previousFrame = null;
+    this.differences = [];
+    this.frameHashes = [];
+    this.repeats = [];
+    this.nosePositions = [];
+    this.blinks = [];
+    this.eyeMean = null;
+    this.eyeVariance = 0;
+    this.blinkStart = null;
+  }
+
+  private trackFrame(frame: GrayFrame, now: number) {
+    if (this.previousFrame) {
+      this.differences.push({ value: meanAbsDifference(frame, this.previousFrame), timestamp: now });
+    }
+    this.previousFrame = frame;
+
+    // An exact repeat of an older frame while the feed is otherwise moving
+    // means the same footage is being played again
+    const hash = hashFrame(frame);
+    const repeated = this.frameHashes.some(
+      (entry) => entry.value === hash && now - entry.timestamp >= this.config.replayMinGap
+    );
+    const lastDifference = this.differences[this.differences.length - 1];
+    if (repeated && lastDifference && lastDifference.value >= this.config.staticDifferenceThreshold) {
+      this.repeats.push({ value: hash, timestamp: now });
+    }
+    this.frameHashes.push({ value: hash, timestamp: now });
+  }
+
+  private trackFace(videoElement: HTMLVideoElement, analysis: FrameAnalysis, now: number) {
+    const face = analysis.predictions[0];
+    const landmarks = getLandmarkPoints(face);
+    if (!landmarks) return;
+
+    const topLeft = face.topLeft as [number, number];
+    const bottomRight = face.bottomRight as [number, number];
+    const faceWidth = bottomRight[0] - topLeft[0];
+    if (faceWidth <= 0) return;
+
+    // Nose position relative to the face box; rigid for a photo, jittery for a person
+    this.nosePositions.push({
+      x: (landmarks[2][0] - topLeft[0]) / faceWidth,
+      y: (landmarks[2][1] - topLeft[1]) / faceWidth,
+      timestamp: now,
+    });
+
+    if (!this.eyeContext) return;
+
+    // Brightness of both eye regions changes sharply and briefly during a blink
+    const eyeDistance = Math.hypot(landmarks[1][0] - landmarks[0][0], landmarks[1][1] - landmarks[0][1]);
+    const patch = eyeDistance * EYE_PATCH_RATIO;
+    if (patch < 2) return;
+    const eyeBrightness = [landmarks[0], landmarks[1]]
+      .map(([x, y]) => meanBrightness(
+        sampleGrayFrame(this.eyeContext, videoElement, [x - patch / 2, y - patch / 2, patch, patch])
+      ))
+      .reduce((sum, value) => sum + value, 0) / 2;
+
+    this.trackBlink(eyeBrightness, now);
+  }
+
+  private trackBlink(brightness: number, now: number) {
+    if (this.eyeMean === null) {
+      this.eyeMean = brightness;
+      return;
+    }
+
+    const deviation = brightness - this.eyeMean;
+    const std = Math.sqrt(this.eyeVariance);
+    const deviating = std > 0 && Math.abs(deviation) > std * this.config.blinkDeviation;
+
+    if (deviating) {
+      if (this.blinkStart === null) {
+        this.blinkStart = now;
+      } else if (now - this.blinkStart > this.config.maxBlinkDuration) {
+        // Too long for a blink; treat it as a lighting change and adapt
+        this.blinkStart = null;
+        this.eyeMean = brightness;
+      }
+      return;
+    }
+
+    if (this.blinkStart !== null) {
+      this.blinks.push({ value: now - this.blinkStart, timestamp: now });
+      this.blinkStart = null;
+    }
+
+    // Only learn the baseline from open-eye frames
+    this.eyeMean += deviation * BRIGHTNESS_SMOOTHING;
+    this.eyeVariance += (deviation * deviation - this.eyeVariance) * BRIGHTNESS_SMOOTHING;
+  }
+
+  private evaluate(now: number): LivenessResult {
+    const ready = this.startTime !== null && now - this.startTime >= this.config.windowDuration;
+
+    const frameDifference = this.differences.length > 0
+      ? this.differences.reduce((sum, entry) => sum + entry.value, 0) / this.differences.length
+      : 0;
+    const microMotion = Math.max(
+      standardDeviation(this.nosePositions.map((position) => position.x)),
+      standardDeviation(this.nosePositions.map((position) => position.y))
+    );
+    const blinkCount = this.blinks.length;
+    const faceTracked = this.nosePositions.length >= 10;
+
+    const staticFeed = ready && this.differences.length > 0 &&
+      frameDifference < this.config.staticDifferenceThreshold;
+    const replayDetected = this.repeats.length >= this.config.replayMinRepeats;
+    const noLifeSigns = ready && faceTracked &&
+      blinkCount < this.config.minBlinksPerWindow &&
+      microMotion < this.config.microMotionThreshold;
+
+    return {
+      blinkCount,
+      microMotion,
+      frameDifference,
+      repeatedFrames: this.repeats.length,
+      staticFeed,
+      replayDetected,
+      noLifeSigns,
+      livenessSuspect: staticFeed || replayDetected || noLifeSigns,
+      ready,
+    };
+  }
+}
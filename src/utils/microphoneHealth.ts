@@ -0,0 +1,158 @@
+export type MicrophoneIssue = 'ended' | 'muted' | 'digitalSilence' | 'deviceChanged';
+
+export interface MicrophoneHealthConfig {
+  silenceLevel: number; // dBFS at or below which input is digital silence; a live microphone always hisses above it
+  silenceDuration: number; // ms of digital silence before it is reported
+  deviceChangeHold: number; // ms a change of audio devices stays reported
+}
+
+export const DEFAULT_MICROPHONE_HEALTH_CONFIG: MicrophoneHealthConfig = {
+  silenceLevel: -100,
+  silenceDuration: 5000,
+  deviceChangeHold: 5000,
+};
+
+export interface MicrophoneHealth {
+  issue: MicrophoneIssue | null; // Most severe current problem
+  deviceLabel: string; // Name of the microphone being recorded
+  silentFor: number; // ms of uninterrupted digital silence
+}
+
+// Checked in order; the first current issue wins
+const ISSUE_PRIORITY: MicrophoneIssue[] = ['ended', 'muted', 'digitalSilence', 'deviceChanged'];
+
+// Audio inputs as comparable text; a changed default device keeps its id but changes group
+const describeInputs = (devices: MediaDeviceInfo[]) => devices
+  .filter((device) => device.kind === 'audioinput')
+  .map((device) => `${device.deviceId}:${device.groupId}`)
+  .sort()
+  .join(',');
+
+/**
+ * Watches the microphone track for problems that otherwise just look like a
+ * quiet room: the track ending when the device is unplugged or permission is
+ * revoked, the system muting it, input that is exactly silent, and audio
+ * devices being swapped while monitoring
+ */
+export class MicrophoneMonitor {
+  config: MicrophoneHealthConfig;
+  private track: MediaStreamTrack | null = null;
+  private ended = false;
+  private muted = false;
+  private silentSince: number | null = null;
+  private changedAt: number | null = null;
+  private inputs: string | null = null;
+  private onChange: () => void;
+
+  /**
+   * @param onChange Called when a track or device event changes the health
+   */
+  constructor(config: Partial<MicrophoneHealthConfig> = {}, onChange: () => void = () => {}) {
+    this.config = { ...DEFAULT_MICROPHONE_HEALTH_CONFIG, ...config };
+    this.onChange = onChange;
+  }
+
+  updateConfig(config: Partial<MicrophoneHealthConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Start watching the audio track of a stream
+   */
+  attach(stream: MediaStream): void {
+    this.detach();
+    const [track] = stream.getAudioTracks();
+    if (!track) return;
+
+    this.track = track;
+    this.ended = track.readyState === 'ended';
+    this.muted = track.muted;
+    track.addEventListener('ended', this.handleEnded);
+    track.addEventListener('mute', this.handleMute);
+    track.addEventListener('unmute', this.handleUnmute);
+
+    if (navigator.mediaDevices) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+      navigator.mediaDevices.enumerateDevices().then((devices) => {
+        this.inputs = describeInputs(devices);
+      }).catch((error) => {
+        console.warn('Could not list audio devices:', error);
+      });
+    }
+  }
+
+  /**
+   * Stop watching and forget the current state
+   */
+  detach(): void {
+    if (this.track) {
+      this.track.removeEventListener('ended', this.handleEnded);
+      this.track.removeEventListener('mute', this.handleMute);
+      this.track.removeEventListener('unmute', this.handleUnmute);
+      navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    }
+    this.track = null;
+    this.ended = false;
+    this.muted = false;
+    this.silentSince = null;
+    this.changedAt = null;
+    this.inputs = null;
+  }
+
+  /**
+   * Feed the level of the latest analysed audio
+   * @param level dBFS
+   */
+  updateLevel(level: number, now = Date.now()): void {
+    if (level <= this.config.silenceLevel) {
+      this.silentSince = this.silentSince ?? now;
+    } else {
+      this.silentSince = null;
+    }
+  }
+
+  getHealth(now = Date.now()): MicrophoneHealth {
+    const silentFor = this.silentSince === null ? 0 : now - this.silentSince;
+    const current: Record<MicrophoneIssue, boolean> = {
+      ended: this.ended,
+      muted: this.muted,
+      digitalSilence: silentFor >= this.config.silenceDuration,
+      deviceChanged: this.changedAt !== null && now - this.changedAt < this.config.deviceChangeHold,
+    };
+
+    return {
+      issue: this.track ? ISSUE_PRIORITY.find((issue) => current[issue]) ?? null : null,
+      deviceLabel: this.track?.label ?? '',
+      silentFor,
+    };
+  }
+
+  private handleEnded = () => {
+    this.ended = true;
+    this.onChange();
+  };
+
+  private handleMute = () => {
+    this.muted = true;
+    this.onChange();
+  };
+
+  private handleUnmute = () => {
+    this.muted = false;
+    this.onChange();
+  };
+
+  private handleDeviceChange = async () => {
+    try {
+      const inputs = describeInputs(await navigator.mediaDevices.enumerateDevices());
+      if (!this.track) return;
+      if (this.inputs !== null && inputs !== this.inputs) {
+        this.changedAt = Date.now();
+        this.onChange();
+      }
+      this.inputs = inputs;
+    } catch (error) {
+      console.warn('Could not list audio devices:', error);
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * Load a graph model from bundled asset URLs. Bundling renames the weight
+ * files, so the shards are fetched from their own URLs instead of the paths
+ * listed in model.json.
+ */
+export const loadBundledGraphModel = async (
+  modelUrl: string,
+  weightUrls: string[]
+): Promise<tf.GraphModel> => {
+  const modelJson: tf.io.ModelJSON = await (await fetch(modelUrl)).json();
+  const shards = await Promise.all(
+    weightUrls.map(async (url) => (await fetch(url)).arrayBuffer())
+  );
+
+  return tf.loadGraphModel({
+    load: async () => ({
+      modelTopology: modelJson.modelTopology,
+      format: modelJson.format,
+      generatedBy: modelJson.generatedBy,
+      convertedBy: modelJson.convertedBy,
+      signature: modelJson.signature,
+      userDefinedMetadata: modelJson.userDefinedMetadata,
+      weightSpecs: modelJson.weightsManifest.flatMap((group) => group.weights),
+      weightData: tf.io.concatenateArrayBuffers(shards),
+    }),
+  });
+};
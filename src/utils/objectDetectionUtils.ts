@@ -0,0 +1,181 @@
+import * as tf from '@tensorflow/tfjs';
+// COCO CenterNet weights ship with the app as static assets
+import centerNetModelUrl from '@models/human/centernet.json?url';
+import centerNetWeightsUrl from '@models/human/centernet.bin?url';
+import { loadBundledGraphModel } from './modelUtils';
+
+export interface ObjectDetectionConfig {
+  interval: number; // ms between object detection passes
+  minConfidence: number;
+  iouThreshold: number;
+  maxDetected: number;
+  prohibitedClasses: string[]; // COCO labels that raise an incident
+}
+
+export const DEFAULT_OBJECT_DETECTION_CONFIG: ObjectDetectionConfig = {
+  interval: 2000, // Much slower than face detection; objects rarely flicker in and out
+  minConfidence: 0.4,
+  iouThreshold: 0.4,
+  maxDetected: 10,
+  prohibitedClasses: ['cell phone', 'book', 'laptop', 'tv'],
+};
+
+export interface DetectedObject {
+  label: string;
+  score: number; // 0-1
+  box: [number, number, number, number]; // x, y, width, height in video pixels
+}
+
+export interface ObjectDetectionResult {
+  objects: DetectedObject[];
+  prohibited: DetectedObject[];
+  timestamp: number;
+}
+
+// COCO class labels in model output order
+const COCO_LABELS = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck',
+  'boat', 'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench',
+  'bird', 'cat', 'dog', 'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra',
+  'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove',
+  'skateboard', 'surfboard', 'tennis racket', 'bottle', 'wine glass', 'cup',
+  'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch',
+  'potted plant', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse',
+  'remote', 'keyboard', 'cell phone', 'microwave', 'oven', 'toaster', 'sink',
+  'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear',
+  'hair drier', 'toothbrush',
+];
+
+// Display names for prohibited classes
+export const PROHIBITED_OBJECT_NAMES: Record<string, string> = {
+  'cell phone': 'Phone',
+  book: 'Book',
+  laptop: 'Second screen',
+  tv: 'Second screen',
+};
+
+/**
+ * Human-readable name for a detected object
+ */
+export const getObjectName = (label: string): string =>
+  PROHIBITED_OBJECT_NAMES[label] ?? label;
+
+/**
+ * Looks for phones, books and extra screens at a lower cadence than face detection
+ */
+export class ObjectDetector {
+  config: ObjectDetectionConfig;
+  private model: tf.GraphModel | null = null;
+  private inputSize = 0;
+  private lastRun = 0;
+  private busy = false;
+  private lastResult: ObjectDetectionResult | null = null;
+
+  constructor(config: Partial<ObjectDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_OBJECT_DETECTION_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<ObjectDetectionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get isReady(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Load the object detection model
+   */
+  async initialize(): Promise<void> {
+    if (this.model) return;
+
+    const model = await loadBundledGraphModel(centerNetModelUrl, [centerNetWeightsUrl]);
+    const input = model.inputs[0];
+    this.inputSize = input.shape ? input.shape[2] : 512;
+    this.model = model;
+  }
+
+  /**
+   * Detect objects if the interval has elapsed since the last pass
+   * @returns The latest result, which may be from an earlier frame
+   */
+  async detect(
+    videoElement: HTMLVideoElement,
+    now = Date.now()
+  ): Promise<ObjectDetectionResult | null> {
+    if (!this.model || this.busy || now - this.lastRun < this.config.interval) {
+      return this.lastResult;
+    }
+
+    this.busy = true;
+    this.lastRun = now;
+    try {
+      const objects = await this.runModel(videoElement);
+      this.lastResult = {
+        objects,
+        prohibited: objects.filter((object) => this.config.prohibitedClasses.includes(object.label)),
+        timestamp: now,
+      };
+      return this.lastResult;
+    } catch (error) {
+      console.error('Error in object detection:', error);
+      return this.lastResult;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  reset(): void {
+    this.lastRun = 0;
+    this.lastResult = null;
+  }
+
+  dispose(): void {
+    this.reset();
+    this.model?.dispose();
+    this.model = null;
+  }
+
+  private async runModel(videoElement: HTMLVideoElement): Promise<DetectedObject[]> {
+    const { videoWidth, videoHeight } = videoElement;
+    const size = this.inputSize;
+
+    const output = tf.tidy(() => {
+      const image = tf.browser.fromPixels(videoElement).toFloat().expandDims(0);
+      const resized = tf.image.resizeBilinear(image as tf.Tensor4D, [size, size]);
+      return this.model.execute(resized, 'tower_0/detections') as tf.Tensor;
+    });
+
+    // Each row is [x1, y1, x2, y2, score, class] in model input pixels
+    const detections = (await output.array() as number[][][])[0];
+    output.dispose();
+
+    const boxes = tf.tensor2d(detections.map(([x1, y1, x2, y2]) => [y1, x1, y2, x2]));
+    const scores = tf.tensor1d(detections.map((row) => row[4]));
+    const keep = await tf.image.nonMaxSuppressionAsync(
+      boxes,
+      scores,
+      this.config.maxDetected,
+      this.config.iouThreshold,
+      this.config.minConfidence
+    );
+    const indices = Array.from(await keep.data());
+    tf.dispose([boxes, scores, keep]);
+
+    return indices
+      .map((index) => detections[index])
+      .filter((row) => COCO_LABELS[row[5]] !== undefined)
+      .map(([x1, y1, x2, y2, score, classId]) => ({
+        label: COCO_LABELS[classId],
+        score,
+        box: [
+          (x1 / size) * videoWidth,
+          (y1 / size) * videoHeight,
+          ((x2 - x1) / size) * videoWidth,
+          ((y2 - y1) / size) * videoHeight,
+        ] as [number, number, number, number],
+      }));
+  }
+}
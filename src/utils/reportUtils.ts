@@ -0,0 +1,670 @@
+import { z } from 'zod';
+import { DETECTION_CATEGORIES } from './detectionUtils';
+import {
+  DetectionConfig,
+  DetectionConfigOverrides,
+  detectionConfigSchema,
+  restoreDetectionConfig
+} from './detectionConfig';
+import type { CalibrationBaseline } from './calibrationUtils';
+import {
+  CATEGORY_LABELS,
+  Incident,
+  formatDuration,
+  getIncidentDuration
+} from './incidentUtils';
+import {
+  LOG_ALGORITHM,
+  LogEntry,
+  LogVerification,
+  compareIncidentsWithLog,
+  getKeyFingerprint,
+  isSameFingerprint,
+  verifyIncidentLog
+} from './integrityUtils';
+import { RISK_LEVEL_LABELS, RiskAssessment, calculateRiskScore } from './riskScore';
+import type {
+  MetricSample,
+  SessionRecord,
+  SessionState,
+  SessionStore,
+  StoredEvidence,
+  StoredSpeechSegment
+} from './sessionStore';
+
+export const REPORT_SCHEMA_VERSION = 1;
+// JSON Schema for the export, served with the app
+export const REPORT_SCHEMA_URL = '/schemas/session-report.v1.json';
+
+export interface CategorySummary {
+  category: Incident['category'];
+  count: number;
+  totalDuration: number; // ms
+}
+
+export interface ReportSummary {
+  duration: number; // ms from start to end of the session
+  incidentCount: number;
+  warningCount: number;
+  dangerCount: number;
+  flaggedDuration: number; // ms covered by at least one incident
+  averageAttention: number | null; // 0-100, null without samples
+  lowestAttention: number | null;
+  framesAnalysed: number; // Summed over the metric samples
+  framesDropped: number;
+  speechCount: number;
+  speechDuration: number; // ms of detected speech
+  reloadCount: number;
+  categories: CategorySummary[]; // Most frequent first
+}
+
+export type ReportIncident = Incident & {
+  duration: number; // ms
+};
+
+export type ReportSample = Omit<MetricSample, 'sessionId'>;
+
+export type ReportSpeechSegment = Omit<StoredSpeechSegment, 'sessionId'>;
+
+// Evidence is listed by reference; the blobs themselves stay in the browser
+export interface ReportEvidence {
+  id: string;
+  kind: StoredEvidence['kind'];
+  incidentId: string;
+  mimeType: string;
+  size: number; // bytes
+  createdAt: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+// The signed incident log, so the export can be checked independently of this
+// app. It covers the incidents only; summary, risk, timeline, evidence and
+// config are derived or copied without a signature.
+export interface ReportIntegrity {
+  algorithm: string;
+  publicKey: JsonWebKey;
+  keyFingerprint: string;
+  log: LogEntry[];
+}
+
+/**
+ * Everything recorded for one session, in the shape of the JSON export
+ */
+export interface SessionReport {
+  $schema: string;
+  schemaVersion: number;
+  generatedAt: number;
+  session: {
+    id: string;
+    startTime: number;
+    endTime: number | null;
+    state: SessionState;
+    reloadCount: number;
+  };
+  summary: ReportSummary;
+  risk: RiskAssessment; // As of the end of the session
+  incidents: ReportIncident[]; // Oldest first
+  timeline: ReportSample[]; // Oldest first
+  speech: ReportSpeechSegment[]; // Oldest first
+  evidence: ReportEvidence[];
+  config: DetectionConfig;
+  baseline: CalibrationBaseline | null;
+  integrity: ReportIntegrity | null; // Null for sessions recorded without a log
+}
+
+const timestamp = z.number().int().min(0);
+const category = z.enum(DETECTION_CATEGORIES);
+const severity = z.enum(['warning', 'danger']);
+const evidenceKind = z.enum(['snapshot', 'clip']);
+const ratio = z.number().min(0).max(1);
+const hex = z.string().regex(/^[0-9a-f]*$/);
+
+const incidentSchema = z.object({
+  id: z.string(),
+  category,
+  severity,
+  message: z.string(),
+  startTime: timestamp,
+  endTime: timestamp.nullable(),
+  confidence: z.number().min(0).max(1),
+  metrics: z.record(z.union([z.number(), z.string(), z.boolean(), z.null()])),
+  evidence: z.array(z.object({ kind: evidenceKind, id: z.string() })).optional(),
+});
+
+const logEntrySchema = z.intersection(
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('sessionStart'), publicKey: z.object({}).passthrough() }),
+    z.object({ type: z.literal('incident'), incident: incidentSchema }),
+    z.object({ type: z.literal('sessionEnd'), incidentCount: z.number().int().min(0) }),
+  ]),
+  z.object({
+    sessionId: z.string(),
+    sequence: z.number().int().min(0),
+    timestamp,
+    previousHash: hex,
+    hash: hex,
+    signature: hex,
+  })
+);
+
+// Mirrors public/schemas/session-report.v1.json
+export const sessionReportSchema = z.object({
+  $schema: z.string(),
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  generatedAt: timestamp,
+  session: z.object({
+    id: z.string(),
+    startTime: timestamp,
+    endTime: timestamp.nullable(),
+    state: z.enum(['active', 'completed', 'interrupted']),
+    reloadCount: z.number().int().min(0),
+  }),
+  summary: z.object({
+    duration: z.number().min(0),
+    incidentCount: z.number().int().min(0),
+    warningCount: z.number().int().min(0),
+    dangerCount: z.number().int().min(0),
+    flaggedDuration: z.number().min(0),
+    averageAttention: z.number().min(0).max(100).nullable(),
+    lowestAttention: z.number().min(0).max(100).nullable(),
+    framesAnalysed: z.number().int().min(0),
+    framesDropped: z.number().int().min(0),
+    speechCount: z.number().int().min(0),
+    speechDuration: z.number().min(0),
+    reloadCount: z.number().int().min(0),
+    categories: z.array(z.object({
+      category,
+      count: z.number().int().min(1),
+      totalDuration: z.number().min(0),
+    })),
+  }),
+  risk: z.object({
+    score: z.number().min(0).max(100),
+    level: z.enum(['low', 'elevated', 'high']),
+    points: z.number().min(0),
+    evaluatedAt: timestamp,
+    factors: z.array(z.object({
+      category,
+      incidentCount: z.number().int().min(1),
+      activeDuration: z.number().min(0),
+      points: z.number().min(0),
+      share: ratio,
+    })),
+  }),
+  incidents: z.array(incidentSchema.extend({ duration: z.number().min(0) })),
+  timeline: z.array(z.object({
+    timestamp,
+    status: z.enum(['safe', 'warning', 'danger']),
+    attention: z.number().min(0).max(100),
+    faceCount: z.number().int().min(0),
+    lookingAway: z.boolean(),
+    volumeLevel: z.number().min(0).max(1).nullable(),
+    framesAnalysed: z.number().int().min(0),
+    framesDropped: z.number().int().min(0),
+    hidden: z.boolean(),
+  })),
+  speech: z.array(z.object({
+    start: timestamp,
+    end: timestamp,
+    confidence: ratio,
+    peakLevel: z.number(),
+  })),
+  evidence: z.array(z.object({
+    id: z.string(),
+    kind: evidenceKind,
+    incidentId: z.string(),
+    mimeType: z.string(),
+    size: z.number().int().min(0),
+    createdAt: timestamp,
+    startTime: timestamp.optional(),
+    endTime: timestamp.optional(),
+  })),
+  config: detectionConfigSchema,
+  baseline: z.object({}).passthrough().nullable(),
+  integrity: z.object({
+    algorithm: z.literal(LOG_ALGORITHM),
+    publicKey: z.object({}).passthrough(),
+    keyFingerprint: z.string(),
+    log: z.array(logEntrySchema),
+  }).nullable(),
+});
+
+// Total time covered by the union of the incident spans
+const getFlaggedDuration = (incidents: Incident[], now: number): number => {
+  const spans = incidents
+    .map((incident) => [incident.startTime, incident.endTime ?? now])
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let coveredUntil = -Infinity;
+  spans.forEach(([start, end]) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) total += end - from;
+    coveredUntil = Math.max(coveredUntil, end);
+  });
+  return total;
+};
+
+const summarize = (
+  session: SessionRecord,
+  incidents: Incident[],
+  samples: MetricSample[],
+  speech: StoredSpeechSegment[],
+  now: number
+): ReportSummary => {
+  const categories = new Map<Incident['category'], CategorySummary>();
+  incidents.forEach((incident) => {
+    const entry = categories.get(incident.category) ?? { category: incident.category, count: 0, totalDuration: 0 };
+    entry.count++;
+    entry.totalDuration += getIncidentDuration(incident, now);
+    categories.set(incident.category, entry);
+  });
+
+  const attention = samples.map((sample) => sample.attention);
+  return {
+    duration: Math.max(0, (session.endTime ?? now) - session.startTime),
+    incidentCount: incidents.length,
+    warningCount: incidents.filter((incident) => incident.severity === 'warning').length,
+    dangerCount: incidents.filter((incident) => incident.severity === 'danger').length,
+    flaggedDuration: getFlaggedDuration(incidents, now),
+    averageAttention: attention.length > 0
+      ? Math.round(attention.reduce((sum, value) => sum + value, 0) / attention.length)
+      : null,
+    lowestAttention: attention.length > 0 ? Math.min(...attention) : null,
+    framesAnalysed: samples.reduce((sum, sample) => sum + sample.framesAnalysed, 0),
+    framesDropped: samples.reduce((sum, sample) => sum + sample.framesDropped, 0),
+    speechCount: speech.length,
+    speechDuration: speech.reduce((sum, segment) => sum + segment.end - segment.start, 0),
+    reloadCount: session.reloadCount,
+    categories: Array.from(categories.values()).sort((a, b) => b.count - a.count),
+  };
+};
+
+/**
+ * Assemble the report for a session from its stored records
+ */
+export const createSessionReport = (
+  session: SessionRecord,
+  incidents: Incident[],
+  samples: MetricSample[],
+  speech: StoredSpeechSegment[],
+  evidence: StoredEvidence[],
+  integrity: ReportIntegrity | null = null,
+  now = Date.now()
+): SessionReport => {
+  const ordered = [...incidents].sort((a, b) => a.startTime - b.startTime);
+  // Sessions saved by older versions may lack newer settings or use retired rule signals
+  const config = restoreDetectionConfig(session.config as DetectionConfigOverrides);
+  return {
+    $schema: REPORT_SCHEMA_URL,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: now,
+    session: {
+      id: session.id,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      state: session.state,
+      reloadCount: session.reloadCount,
+    },
+    summary: summarize(session, ordered, samples, speech, now),
+    risk: calculateRiskScore(ordered, config.riskWeights, config.risk, session.endTime ?? now),
+    incidents: ordered.map((incident) => ({
+      id: incident.id,
+      category: incident.category,
+      severity: incident.severity,
+      message: incident.message,
+      startTime: incident.startTime,
+      endTime: incident.endTime,
+      duration: getIncidentDuration(incident, now),
+      confidence: incident.confidence,
+      metrics: incident.metrics,
+      evidence: incident.evidence,
+    })),
+    timeline: samples.map(({ sessionId: _sessionId, ...sample }) => sample),
+    speech: speech.map(({ sessionId: _sessionId, ...segment }) => segment),
+    evidence: evidence.map((item) => ({
+      id: item.id,
+      kind: item.kind,
+      incidentId: item.incidentId,
+      mimeType: item.blob.type,
+      size: item.blob.size,
+      createdAt: item.createdAt,
+      startTime: item.startTime,
+      endTime: item.endTime,
+    })),
+    config,
+    baseline: session.baseline,
+    integrity,
+  };
+};
+
+/**
+ * Load a stored session and build its report
+ * @returns The report and the evidence blobs it refers to, or null if the session is unknown
+ */
+export const loadSessionReport = async (
+  store: SessionStore,
+  sessionId: string
+): Promise<{ report: SessionReport; evidence: StoredEvidence[] } | null> => {
+  const session = await store.getSession(sessionId);
+  if (!session) return null;
+  const [incidents, samples, speech, evidence, log] = await Promise.all([
+    store.getIncidents(sessionId),
+    store.getSamples(sessionId),
+    store.getSpeechSegments(sessionId),
+    store.getSessionEvidence(sessionId),
+    store.getLogEntries(sessionId),
+  ]);
+  const start = log[0];
+  const integrity = start?.type === 'sessionStart'
+    ? {
+      algorithm: LOG_ALGORITHM,
+      publicKey: start.publicKey,
+      keyFingerprint: await getKeyFingerprint(start.publicKey),
+      log,
+    }
+    : null;
+  return { report: createSessionReport(session, incidents, samples, speech, evidence, integrity), evidence };
+};
+
+export interface ReportVerification extends LogVerification {
+  keyFingerprint: string | null; // Of the key the log is signed with
+  keyTrusted: boolean; // The key matches the expected fingerprint
+}
+
+/**
+ * Check a report's incident log, and that its incidents match the log.
+ * Works on a freshly built report as well as on an imported JSON export.
+ * A report carries its own public key, so anyone can re-sign an edited
+ * one; only a fingerprint recorded elsewhere at session start shows that
+ * the log was signed with the session's key.
+ * @param trustedFingerprint Expected key fingerprint, or null to check the log against its own key only
+ */
+export const verifySessionReport = async (
+  report: SessionReport,
+  trustedFingerprint: string | null
+): Promise<ReportVerification> => {
+  const { integrity } = report;
+  if (!integrity) {
+    return {
+      valid: false,
+      entryCount: 0,
+      verifiedCount: 0,
+      break: { reason: 'empty', sequence: null, message: 'The report has no signed incident log.' },
+      keyFingerprint: null,
+      keyTrusted: false,
+    };
+  }
+
+  const keyFingerprint = await getKeyFingerprint(integrity.publicKey);
+  const keyTrusted = trustedFingerprint !== null && isSameFingerprint(keyFingerprint, trustedFingerprint);
+  if (trustedFingerprint !== null && !keyTrusted) {
+    return {
+      valid: false,
+      entryCount: integrity.log.length,
+      verifiedCount: 0,
+      break: {
+        reason: 'untrustedKey',
+        sequence: null,
+        message: `The log is signed with key ${keyFingerprint}, not the expected ${trustedFingerprint}.`,
+      },
+      keyFingerprint,
+      keyTrusted,
+    };
+  }
+
+  const result = await verifyIncidentLog(integrity.log, integrity.publicKey, report.session.state === 'completed');
+  if (!result.valid) return { ...result, keyFingerprint, keyTrusted };
+
+  if (keyFingerprint !== integrity.keyFingerprint) {
+    return {
+      ...result,
+      valid: false,
+      break: { reason: 'keyMismatch', sequence: null, message: 'The key fingerprint does not match the public key.' },
+      keyFingerprint,
+      keyTrusted,
+    };
+  }
+  const mismatch = compareIncidentsWithLog(report.incidents, integrity.log);
+  return mismatch
+    ? { ...result, valid: false, break: mismatch, keyFingerprint, keyTrusted }
+    : { ...result, keyFingerprint, keyTrusted };
+};
+
+/**
+ * Parse and verify a JSON export, e.g. one handed in for review
+ * @param trustedFingerprint Key fingerprint recorded when the session started
+ */
+export const verifyReportFile = async (text: string, trustedFingerprint: string): Promise<ReportVerification> => {
+  const report = JSON.parse(text);
+  sessionReportSchema.parse(report);
+  // Verify the file as written; parsing may drop unknown fields that were hashed
+  return verifySessionReport(report, trustedFingerprint);
+};
+
+/**
+ * JSON export, checked against the published schema first
+ */
+export const serializeReport = (report: SessionReport): string => {
+  sessionReportSchema.parse(report);
+  return JSON.stringify(report, null, 2);
+};
+
+const csvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const isoTime = (time: number | null): string => (time === null ? '' : new Date(time).toISOString());
+
+const CSV_COLUMNS = [
+  'id',
+  'category',
+  'severity',
+  'message',
+  'startTime',
+  'endTime',
+  'durationSeconds',
+  'confidence',
+  'evidence',
+  'metrics',
+];
+
+/**
+ * One row per incident, oldest first
+ */
+export const incidentsToCsv = (report: SessionReport): string => {
+  const rows = report.incidents.map((incident) => [
+    incident.id,
+    incident.category,
+    incident.severity,
+    incident.message,
+    isoTime(incident.startTime),
+    isoTime(incident.endTime),
+    (incident.duration / 1000).toFixed(1),
+    incident.confidence.toFixed(2),
+    (incident.evidence ?? []).map((ref) => `${ref.kind}:${ref.id}`).join(' '),
+    JSON.stringify(incident.metrics),
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  })[char]);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const formatTime = (time: number | null): string =>
+  time === null ? 'ongoing' : new Date(time).toLocaleTimeString();
+
+const STATUS_COLORS = { safe: '#22c55e', warning: '#f59e0b', danger: '#ef4444' };
+
+// Attention over the session as an inline SVG, with incidents shaded behind it
+const renderTimelineSvg = (report: SessionReport): string => {
+  const width = 720;
+  const height = 120;
+  const start = report.session.startTime;
+  const span = Math.max(1, report.summary.duration);
+  const x = (time: number) => (((time - start) / span) * width).toFixed(1);
+
+  const bands = report.incidents.map((incident) => {
+    const end = incident.endTime ?? report.generatedAt;
+    return `<rect x="${x(incident.startTime)}" y="0" width="${Math.max(1, ((end - incident.startTime) / span) * width).toFixed(1)}" height="${height}" fill="${STATUS_COLORS[incident.severity]}" opacity="0.25"><title>${escapeHtml(incident.message)}</title></rect>`;
+  });
+  const points = report.timeline
+    .map((sample) => `${x(sample.timestamp)},${(height - (sample.attention / 100) * height).toFixed(1)}`)
+    .join(' ');
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Attention over time">
+  <rect width="${width}" height="${height}" fill="#f9fafb"/>
+  ${bands.join('\n  ')}
+  <polyline points="${points}" fill="none" stroke="#3b82f6" stroke-width="1.5"/>
+</svg>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.125rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 0.75rem; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem; }
+  .stat strong { display: block; font-size: 1.25rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  .danger { color: #b91c1c; font-weight: 600; }
+  .warning { color: #b45309; font-weight: 600; }
+  img.thumb { width: 120px; border-radius: 0.25rem; }
+  pre { background: #f9fafb; padding: 0.75rem; font-size: 0.75rem; overflow-x: auto; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    tr, .stat { break-inside: avoid; }
+  }
+`;
+
+/**
+ * Printable report with the snapshots embedded, so the file works offline
+ */
+export const renderReportHtml = async (report: SessionReport, evidence: StoredEvidence[]): Promise<string> => {
+  const thumbnails = new Map<string, string>();
+  await Promise.all(evidence
+    .filter((item) => item.kind === 'snapshot')
+    .map(async (item) => {
+      thumbnails.set(item.id, await blobToDataUrl(item.blob));
+    }));
+  const verification = await verifySessionReport(report, null);
+
+  const { session, summary } = report;
+  const stats: [string, string][] = [
+    ['Duration', formatDuration(summary.duration)],
+    ['Incidents', `${summary.incidentCount} (${summary.dangerCount} critical)`],
+    ['Time flagged', formatDuration(summary.flaggedDuration)],
+    ['Average attention', summary.averageAttention === null ? 'n/a' : `${summary.averageAttention}%`],
+    ['Frames analysed', `${summary.framesAnalysed} (${summary.framesDropped} dropped)`],
+    ['Speech heard', `${formatDuration(summary.speechDuration)} in ${summary.speechCount} segment(s)`],
+  ];
+
+  const riskRows = report.risk.factors.map((factor) =>
+    `<tr><td>${escapeHtml(CATEGORY_LABELS[factor.category])}</td><td>${factor.incidentCount}</td><td>${formatDuration(factor.activeDuration)}</td><td>${factor.points.toFixed(1)}</td><td>${Math.round(factor.share * 100)}%</td></tr>`
+  );
+
+  const categoryRows = summary.categories.map((entry) =>
+    `<tr><td>${escapeHtml(CATEGORY_LABELS[entry.category])}</td><td>${entry.count}</td><td>${formatDuration(entry.totalDuration)}</td></tr>`
+  );
+
+  const incidentRows = report.incidents.map((incident) => {
+    const snapshot = incident.evidence?.find((ref) => ref.kind === 'snapshot' && thumbnails.has(ref.id));
+    const clipCount = incident.evidence?.filter((ref) => ref.kind === 'clip').length ?? 0;
+    return `<tr>
+      <td>${formatTime(incident.startTime)}<br><span class="muted">${formatDuration(incident.duration)}</span></td>
+      <td class="${incident.severity}">${incident.severity}</td>
+      <td>${escapeHtml(CATEGORY_LABELS[incident.category])}<br><span class="muted">${escapeHtml(incident.message)}</span></td>
+      <td>${Math.round(incident.confidence * 100)}%</td>
+      <td>${snapshot ? `<img class="thumb" src="${thumbnails.get(snapshot.id)}" alt="Snapshot">` : ''}${clipCount > 0 ? `<div class="muted">${clipCount} clip segment(s) stored</div>` : ''}</td>
+    </tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CheatGuardian report ${escapeHtml(session.id)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>CheatGuardian session report</h1>
+<p class="muted">
+  ${new Date(session.startTime).toLocaleString()} to ${session.endTime === null ? 'ongoing' : new Date(session.endTime).toLocaleString()}
+  · Session ${escapeHtml(session.id)} · ${session.state}${summary.reloadCount > 0 ? ` · ${summary.reloadCount} page reload(s)` : ''}
+  · Generated ${new Date(report.generatedAt).toLocaleString()}
+</p>
+
+<h2>Summary</h2>
+<p class="muted">Computed from the incidents and metric samples; not covered by the signature.</p>
+<div class="stats">
+  ${stats.map(([label, value]) => `<div class="stat"><span class="muted">${label}</span><strong>${value}</strong></div>`).join('\n  ')}
+</div>
+${categoryRows.length > 0 ? `<table>
+  <thead><tr><th>Category</th><th>Incidents</th><th>Total time</th></tr></thead>
+  <tbody>${categoryRows.join('')}</tbody>
+</table>` : '<p>No incidents were recorded.</p>'}
+
+<h2>Risk score</h2>
+<p><strong class="${report.risk.level === 'high' ? 'danger' : report.risk.level === 'elevated' ? 'warning' : ''}">${report.risk.score}/100 · ${RISK_LEVEL_LABELS[report.risk.level]}</strong>
+  <span class="muted">(${report.risk.points.toFixed(1)} points at the end of the session)</span></p>
+${riskRows.length > 0 ? `<table>
+  <thead><tr><th>Category</th><th>Incidents</th><th>Total time</th><th>Points</th><th>Share</th></tr></thead>
+  <tbody>${riskRows.join('')}</tbody>
+</table>` : ''}
+<p class="muted">Each incident adds its category weight, raised for critical severity, longer duration and repeats, and halves every ${formatDuration(report.config.risk.halfLife)} after it ends. The score is recomputed from the incidents with the settings below, which are not signed.</p>
+
+<h2>Timeline</h2>
+<p class="muted">Metric samples are stored without a signature.</p>
+${report.timeline.length > 0 ? renderTimelineSvg(report) : '<p class="muted">No metric samples were recorded.</p>'}
+<p class="muted">Line: estimated attention. Shaded: incidents (amber warning, red critical).</p>
+
+<h2>Incidents</h2>
+${incidentRows.length > 0 ? `<table>
+  <thead><tr><th>Time</th><th>Severity</th><th>Incident</th><th>Confidence</th><th>Evidence</th></tr></thead>
+  <tbody>${incidentRows.join('')}</tbody>
+</table>` : '<p>No incidents were recorded.</p>'}
+
+<h2>Integrity</h2>
+${report.integrity ? `<p class="${verification.valid ? '' : 'danger'}">
+  ${verification.valid
+    ? `Incident log intact: ${verification.entryCount} entries, hash-chained and signed. The signature covers the incidents only, not the summary, risk score or timeline.`
+    : `Incident log failed verification: ${escapeHtml(verification.break?.message ?? 'unknown error')}`}
+</p>
+<p class="muted">${escapeHtml(report.integrity.algorithm)} · key fingerprint ${escapeHtml(verification.keyFingerprint ?? report.integrity.keyFingerprint)}.
+  A report can be re-signed with a new key, so compare this fingerprint with the one recorded when the session started.
+  The signing key is kept in the student's browser while the session runs and can sign entries there until the session ends.</p>` : '<p class="muted">This session was recorded without a signed incident log.</p>'}
+
+<h2>Configuration</h2>
+<pre>${escapeHtml(JSON.stringify(report.config, null, 2))}</pre>
+</body>
+</html>`;
+};
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export const downloadFile = (content: string, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,133 @@
+import type { DetectionCategory } from './detectionUtils';
+import { Incident, getIncidentDuration } from './incidentUtils';
+
+// Points each incident of a category adds before duration, repeats and decay
+export type RiskWeights = Record<DetectionCategory, number>;
+
+export interface RiskConfig {
+  dangerMultiplier: number; // Factor for incidents that reached danger
+  durationWeight: number; // Extra share of the weight per minute an incident lasts
+  maxDurationMinutes: number; // Longer incidents count as this long
+  repeatMultiplier: number; // Extra share of the weight for each earlier incident of the same category
+  halfLife: number; // ms after an incident ends for its points to halve
+  scale: number; // Points at which the score reaches 63
+  elevatedThreshold: number; // Score from which the risk is elevated (0-100)
+  highThreshold: number; // Score from which the risk is high (0-100)
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  feedFrozen: 15,
+  cameraCovered: 15,
+  tooDark: 3,
+  outOfFocus: 2,
+  faceAbsent: 15,
+  multipleFaces: 25,
+  identityMismatch: 30,
+  liveness: 25,
+  prohibitedObject: 25,
+  lookingAway: 8,
+  audio: 10,
+  multipleVoices: 25,
+  microphone: 20,
+  pageReload: 15,
+};
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  dangerMultiplier: 1.5,
+  durationWeight: 0.5,
+  maxDurationMinutes: 10,
+  repeatMultiplier: 0.25,
+  halfLife: 15 * 60 * 1000,
+  scale: 50,
+  elevatedThreshold: 25,
+  highThreshold: 60,
+};
+
+export type RiskLevel = 'low' | 'elevated' | 'high';
+
+// How much one category contributed to the score
+export interface RiskFactor {
+  category: DetectionCategory;
+  incidentCount: number;
+  activeDuration: number; // ms
+  points: number; // After decay
+  share: number; // Fraction of all points (0-1)
+}
+
+export interface RiskAssessment {
+  score: number; // 0-100
+  level: RiskLevel;
+  points: number; // Sum of the decayed incident points
+  evaluatedAt: number;
+  factors: RiskFactor[]; // Largest contribution first
+}
+
+/**
+ * Points one incident adds at the given time
+ * @param repeats Number of earlier incidents of the same category
+ */
+const scoreIncident = (
+  incident: Incident,
+  repeats: number,
+  weights: RiskWeights,
+  config: RiskConfig,
+  now: number
+): number => {
+  const minutes = Math.min(getIncidentDuration(incident, now) / 60000, config.maxDurationMinutes);
+  const severity = incident.severity === 'danger' ? config.dangerMultiplier : 1;
+  const frequency = 1 + config.repeatMultiplier * repeats;
+  const base = (weights[incident.category] ?? 0) * severity * frequency * (1 + config.durationWeight * minutes);
+
+  // Ongoing incidents count in full; finished ones fade with time
+  const age = incident.endTime === null ? 0 : Math.max(0, now - incident.endTime);
+  return base * Math.pow(0.5, age / config.halfLife);
+};
+
+/**
+ * Combine every incident of a session into one integrity risk score.
+ * Points grow with the category weight, severity, duration and repeats,
+ * halve every halfLife after an incident ends, and saturate towards 100.
+ */
+export const calculateRiskScore = (
+  incidents: Incident[],
+  weights: RiskWeights = DEFAULT_RISK_WEIGHTS,
+  config: RiskConfig = DEFAULT_RISK_CONFIG,
+  now = Date.now()
+): RiskAssessment => {
+  const factors = new Map<DetectionCategory, RiskFactor>();
+  const ordered = [...incidents].sort((a, b) => a.startTime - b.startTime);
+
+  ordered.forEach((incident) => {
+    const factor = factors.get(incident.category) ?? {
+      category: incident.category,
+      incidentCount: 0,
+      activeDuration: 0,
+      points: 0,
+      share: 0,
+    };
+    factor.points += scoreIncident(incident, factor.incidentCount, weights, config, now);
+    factor.incidentCount++;
+    factor.activeDuration += getIncidentDuration(incident, now);
+    factors.set(incident.category, factor);
+  });
+
+  const points = Array.from(factors.values()).reduce((sum, factor) => sum + factor.points, 0);
+  factors.forEach((factor) => {
+    factor.share = points > 0 ? factor.points / points : 0;
+  });
+
+  const score = Math.round(100 * (1 - Math.exp(-points / Math.max(config.scale, 1))));
+  return {
+    score,
+    level: score >= config.highThreshold ? 'high' : score >= config.elevatedThreshold ? 'elevated' : 'low',
+    points,
+    evaluatedAt: now,
+    factors: Array.from(factors.values()).sort((a, b) => b.points - a.points),
+  };
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Low',
+  elevated: 'Elevated',
+  high: 'High',
+};
@@ -0,0 +1,775 @@
+import { z } from 'zod';
+import {
+  DETECTION_CATEGORIES,
+  DetectionCategory,
+  DetectionSignals,
+  StatusCondition,
+} from './detectionUtils';
+import type { DetectionSession } from './detectionSession';
+import { getObjectName } from './objectDetectionUtils';
+import type { IncidentMetrics } from './incidentUtils';
+import { canonicalJson } from './integrityUtils';
+
+// Named values measured from the microphone. Audio arrives on its own clock,
+// so rules on these alone also run while video frames are late.
+export const AUDIO_SIGNALS = [
+  'audioEnabled',
+  'speechDetected', // Inside a speech segment from the voice activity detector
+  'speechProbability', // How much the latest audio frame sounds like speech (0-1)
+  'speechConfidence', // Mean probability of the current segment (0-1)
+  'speechStart', // Start of the current segment
+  'audioLevel', // dBFS
+  'audioCalibrating', // Still measuring the background noise
+  'noiseFloor', // dBFS of the measured background
+  'voiceCount', // Distinct voices in recent speech; 0 until there is enough to judge
+  'voiceSeparation', // How far apart the two most distinct groups of recent speech are
+  'multipleVoicesConfidence', // That more than one voice is present (0-1)
+  'secondVoiceStart', // When the second voice was first heard within the window
+  'voiceSegments', // Each voice's speech within the window, as text
+  'volumeLevel',
+  'microphoneIssue', // ended, muted, digitalSilence or deviceChanged; null while the microphone is fine
+  'microphoneDevice', // Label of the recorded microphone
+  'silentFor', // ms the input has been digitally silent
+] as const;
+
+// Named values rules can test, refreshed every tick
+export const RULE_SIGNALS = [
+  // Face
+  'facePresent',
+  'faceCount',
+  'framesSinceFaceDetected',
+  'faceAbsentProgress', // framesSinceFaceDetected / faceDisappearanceThreshold, capped at 1
+  'faceScores', // Detection probabilities, highest first, as text
+  'secondFaceScore', // Probability of the second most likely face, 1 if unknown
+  'lookingAway',
+  'yaw',
+  'pitch',
+  'roll',
+  // Identity
+  'identityMismatch',
+  'similarity',
+  'similarityPercent',
+  'identityConfidence', // 1 - similarity
+  // Objects
+  'prohibitedObjectCount',
+  'objectNames',
+  'objects', // Labels with scores, as text
+  'objectConfidence', // Highest object score
+  // Liveness
+  'replayDetected',
+  'staticFeed',
+  'noLifeSigns',
+  'repeatedFrames',
+  'frameDifference',
+  'blinkCount',
+  'microMotion',
+  // Camera
+  'frameIssue', // feedFrozen, cameraCovered, tooDark or outOfFocus
+  'brightness',
+  'contrast',
+  'sharpness',
+  'frozenFor',
+  // Audio
+  ...AUDIO_SIGNALS,
+  // Session, kept by the engine
+  'videoAge', // ms since the last analysed video frame
+  'sessionElapsed', // ms since monitoring started
+] as const;
+
+export type RuleSignal = typeof RULE_SIGNALS[number];
+
+export type AudioSignal = typeof AUDIO_SIGNALS[number];
+
+// Null when the signal is not measured, e.g. audio while the microphone is off
+export type SignalValue = number | boolean | string | null;
+
+export type RuleSignals = Record<RuleSignal, SignalValue>;
+
+// What the caller measures each tick; the engine adds the session signals
+export type TickSignals = Omit<RuleSignals, 'videoAge' | 'sessionElapsed'>;
+
+export type CompareOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * A condition over the signal streams. Comparisons look at the current tick;
+ * heldFor, count and during remember earlier ticks.
+ */
+export type RuleCondition =
+  | { signal: RuleSignal; op: CompareOperator; value: number | boolean | string }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { heldFor: number; condition: RuleCondition } // True for at least heldFor ms without a break
+  | { count: number; within: number; condition: RuleCondition } // Became true at least count times in the last within ms
+  | { during: RuleCondition; condition: RuleCondition }; // condition was true at some tick since during last became true
+
+export interface DetectionRule {
+  id: string;
+  enabled: boolean;
+  category: DetectionCategory;
+  status: StatusCondition['status'];
+  message: string; // {signal} placeholders are filled in from the current signals
+  when: RuleCondition;
+  confidence: number | RuleSignal; // Fixed, or read from a 0-1 signal
+  metrics: RuleSignal[]; // Signals recorded with the incident
+  exclusive?: boolean; // When it matches, the rules after it are not reported
+}
+
+export interface RuleEngineConfig {
+  rules: DetectionRule[]; // In reporting priority order
+}
+
+const isFalse = (signal: RuleSignal): RuleCondition => ({ signal, op: 'eq', value: false });
+const isTrue = (signal: RuleSignal): RuleCondition => ({ signal, op: 'eq', value: true });
+const CAMERA_METRICS: RuleSignal[] = ['brightness', 'contrast', 'sharpness', 'frozenFor'];
+
+/**
+ * The built-in detection logic expressed as rules. Camera problems explain a
+ * missing face, so they come first and suppress everything after them.
+ */
+export const DEFAULT_DETECTION_RULES: DetectionRule[] = [
+  {
+    id: 'feed-frozen',
+    enabled: true,
+    category: 'feedFrozen',
+    status: 'danger',
+    message: 'Video feed is frozen',
+    when: { signal: 'frameIssue', op: 'eq', value: 'feedFrozen' },
+    confidence: 1, // Pixel measurements are exact
+    metrics: CAMERA_METRICS,
+    exclusive: true,
+  },
+  {
+    id: 'camera-covered',
+    enabled: true,
+    category: 'cameraCovered',
+    status: 'danger',
+    message: 'Camera appears to be covered',
+    when: { signal: 'frameIssue', op: 'eq', value: 'cameraCovered' },
+    confidence: 1,
+    metrics: CAMERA_METRICS,
+    exclusive: true,
+  },
+  {
+    id: 'too-dark',
+    enabled: true,
+    category: 'tooDark',
+    status: 'warning',
+    message: 'Too dark to see the student',
+    when: { signal: 'frameIssue', op: 'eq', value: 'tooDark' },
+    confidence: 1,
+    metrics: CAMERA_METRICS,
+    exclusive: true,
+  },
+  {
+    id: 'out-of-focus',
+    enabled: true,
+    category: 'outOfFocus',
+    status: 'warning',
+    message: 'Camera image is blurred',
+    when: { all: [{ signal: 'frameIssue', op: 'eq', value: 'outOfFocus' }, isFalse('facePresent')] },
+    confidence: 1,
+    metrics: CAMERA_METRICS,
+    exclusive: true,
+  },
+  {
+    // Runs on audio ticks too, which are the only ones left once video stops
+    id: 'video-stalled',
+    enabled: true,
+    category: 'feedFrozen',
+    status: 'warning',
+    message: 'Video analysis has stopped',
+    when: { signal: 'videoAge', op: 'gte', value: 3000 },
+    confidence: 1,
+    metrics: ['videoAge'],
+  },
+  {
+    id: 'face-absent',
+    enabled: true,
+    category: 'faceAbsent',
+    status: 'danger',
+    message: 'No face detected in frame',
+    when: { all: [isFalse('facePresent'), { signal: 'faceAbsentProgress', op: 'gte', value: 1 }] },
+    confidence: 1,
+    metrics: ['framesSinceFaceDetected'],
+  },
+  {
+    id: 'multiple-faces',
+    enabled: true,
+    category: 'multipleFaces',
+    status: 'danger',
+    message: 'Multiple faces detected ({faceCount})',
+    when: { signal: 'faceCount', op: 'gt', value: 1 },
+    confidence: 'secondFaceScore', // Only as sure as the detector is about the second face
+    metrics: ['faceCount', 'faceScores'],
+  },
+  {
+    id: 'identity-mismatch',
+    enabled: true,
+    category: 'identityMismatch',
+    status: 'danger',
+    message: 'Different person in front of the camera (similarity {similarityPercent}%)',
+    when: { all: [isTrue('facePresent'), isTrue('identityMismatch')] },
+    confidence: 'identityConfidence',
+    metrics: ['similarity'],
+  },
+  {
+    id: 'replay',
+    enabled: true,
+    category: 'liveness',
+    status: 'danger',
+    message: 'Video feed appears to be a replayed recording',
+    when: isTrue('replayDetected'),
+    confidence: 1, // Bit-identical repeats do not happen on a live sensor
+    metrics: ['repeatedFrames', 'frameDifference'],
+  },
+  {
+    id: 'prohibited-object',
+    enabled: true,
+    category: 'prohibitedObject',
+    status: 'danger',
+    message: 'Prohibited object detected: {objectNames}',
+    when: { signal: 'prohibitedObjectCount', op: 'gt', value: 0 },
+    confidence: 'objectConfidence',
+    metrics: ['objects'],
+  },
+  {
+    id: 'static-feed',
+    enabled: true,
+    category: 'liveness',
+    status: 'warning',
+    message: 'Video feed appears static',
+    when: isTrue('staticFeed'),
+    confidence: 1,
+    metrics: ['frameDifference'],
+  },
+  {
+    id: 'no-life-signs',
+    enabled: true,
+    category: 'liveness',
+    status: 'warning',
+    message: 'No signs of a live person (no blinking or natural movement)',
+    when: { all: [isTrue('facePresent'), isTrue('noLifeSigns')] },
+    confidence: 0.5, // Missing blinks alone are weak evidence; some people blink rarely
+    metrics: ['blinkCount', 'microMotion'],
+  },
+  {
+    id: 'looking-away',
+    enabled: true,
+    category: 'lookingAway',
+    status: 'warning',
+    message: 'Looking away from screen',
+    when: isTrue('lookingAway'),
+    confidence: 1, // The pose has already been held past the limits for lookingAwayDuration
+    metrics: ['yaw', 'pitch', 'roll'],
+  },
+  {
+    // Listed after the danger rule so it only covers the frames before the threshold
+    id: 'face-not-visible',
+    enabled: true,
+    category: 'faceAbsent',
+    status: 'warning',
+    message: 'Face temporarily not visible',
+    when: { all: [isFalse('facePresent'), { signal: 'framesSinceFaceDetected', op: 'gt', value: 0 }] },
+    confidence: 'faceAbsentProgress', // Grows towards the point where a missing face becomes danger
+    metrics: ['framesSinceFaceDetected'],
+  },
+  {
+    id: 'microphone-ended',
+    enabled: true,
+    category: 'microphone',
+    status: 'danger',
+    message: 'Microphone disconnected',
+    when: { signal: 'microphoneIssue', op: 'eq', value: 'ended' },
+    confidence: 1,
+    metrics: ['microphoneDevice'],
+  },
+  {
+    id: 'microphone-muted',
+    enabled: true,
+    category: 'microphone',
+    status: 'danger',
+    message: 'Microphone muted',
+    when: { signal: 'microphoneIssue', op: 'eq', value: 'muted' },
+    confidence: 1,
+    metrics: ['microphoneDevice'],
+  },
+  {
+    id: 'microphone-silent',
+    enabled: true,
+    category: 'microphone',
+    status: 'danger',
+    message: 'Microphone is producing no sound',
+    when: { signal: 'microphoneIssue', op: 'eq', value: 'digitalSilence' },
+    confidence: 1, // Even a quiet room never measures this low
+    metrics: ['microphoneDevice', 'silentFor'],
+  },
+  {
+    id: 'microphone-changed',
+    enabled: true,
+    category: 'microphone',
+    status: 'warning',
+    message: 'Audio device changed',
+    when: { signal: 'microphoneIssue', op: 'eq', value: 'deviceChanged' },
+    confidence: 1,
+    metrics: ['microphoneDevice'],
+  },
+  {
+    id: 'multiple-voices',
+    enabled: true,
+    category: 'multipleVoices',
+    status: 'danger',
+    message: 'More than one voice heard',
+    when: { all: [isTrue('speechDetected'), { signal: 'voiceCount', op: 'gte', value: 2 }] },
+    confidence: 'multipleVoicesConfidence',
+    metrics: ['voiceCount', 'voiceSeparation', 'secondVoiceStart', 'voiceSegments'],
+  },
+  {
+    id: 'speech',
+    enabled: true,
+    category: 'audio',
+    status: 'warning',
+    message: 'Someone is talking',
+    when: isTrue('speechDetected'),
+    confidence: 'speechConfidence',
+    metrics: ['speechStart', 'speechConfidence', 'audioLevel'],
+  },
+];
+
+export const DEFAULT_RULE_ENGINE_CONFIG: RuleEngineConfig = {
+  rules: DEFAULT_DETECTION_RULES,
+};
+
+const ruleSignalSchema = z.enum(RULE_SIGNALS);
+const ruleDurationSchema = z.number().min(0).max(24 * 60 * 60 * 1000);
+
+// Recursive, so typed loosely; the RuleCondition type above describes the result
+export const ruleConditionSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  z.object({
+    signal: ruleSignalSchema,
+    op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']),
+    value: z.union([z.number(), z.boolean(), z.string()]),
+  }).strict(),
+  z.object({ all: z.array(ruleConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(ruleConditionSchema).min(1) }).strict(),
+  z.object({ not: ruleConditionSchema }).strict(),
+  z.object({ heldFor: ruleDurationSchema, condition: ruleConditionSchema }).strict(),
+  z.object({
+    count: z.number().int().min(1).max(1000),
+    within: ruleDurationSchema,
+    condition: ruleConditionSchema,
+  }).strict(),
+  z.object({ during: ruleConditionSchema, condition: ruleConditionSchema }).strict(),
+]));
+
+export const detectionRuleSchema = z.object({
+  id: z.string().min(1).max(64),
+  enabled: z.boolean(),
+  category: z.enum(DETECTION_CATEGORIES),
+  status: z.enum(['warning', 'danger']),
+  message: z.string().min(1).max(200),
+  when: ruleConditionSchema,
+  confidence: z.union([z.number().min(0).max(1), ruleSignalSchema]),
+  metrics: z.array(ruleSignalSchema),
+  exclusive: z.boolean().optional(),
+});
+
+// Rule ids key the evaluation state, so they must be unique
+export const ruleSetSchema = z.array(detectionRuleSchema).max(200).refine(
+  (rules) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+  { message: 'Rule ids must be unique' }
+);
+
+// Signals renamed since rules were first saved
+const RENAMED_SIGNALS: Record<string, RuleSignal> = {
+  noiseDetected: 'speechDetected',
+  noiseConfidence: 'speechConfidence',
+};
+
+// Default rules that have since been replaced by others
+const RETIRED_RULE_IDS = ['audio-noise'];
+
+const isRuleSignal = (value: unknown): value is RuleSignal =>
+  (RULE_SIGNALS as readonly unknown[]).includes(value);
+
+const renameSignals = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(renameSignals);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key === 'signal' && typeof item === 'string' ? RENAMED_SIGNALS[item] ?? item : renameSignals(item),
+  ]));
+};
+
+/**
+ * Bring a rule saved by an older version up to date: renamed signals are
+ * replaced and metrics that no longer exist are left out. Conditions on
+ * removed signals are left for validation to reject.
+ */
+export const migrateRule = (rule: unknown): unknown => {
+  if (rule === null || typeof rule !== 'object') return rule;
+  const { when, confidence, metrics, ...rest } = rule as Record<string, unknown>;
+  const renamed = (signal: unknown) => (typeof signal === 'string' ? RENAMED_SIGNALS[signal] ?? signal : signal);
+  return {
+    ...rest,
+    when: renameSignals(when),
+    confidence: renamed(confidence),
+    metrics: Array.isArray(metrics) ? metrics.map(renamed).filter(isRuleSignal) : metrics,
+  };
+};
+
+/**
+ * Migrate a saved rule list without retired default rules, for validation
+ */
+export const migrateRules = (rules: unknown[]): unknown[] => rules
+  .filter((rule) => !RETIRED_RULE_IDS.includes((rule as { id?: unknown } | null)?.id as string))
+  .map(migrateRule);
+
+/**
+ * Recover what can be used of a saved rule list. Rules that still do not
+ * validate after migration are dropped one by one rather than failing the
+ * whole set, and later duplicates of an id are ignored.
+ */
+export const restoreRules = (value: unknown): DetectionRule[] => {
+  if (!Array.isArray(value)) return [];
+  const rules: DetectionRule[] = [];
+  migrateRules(value).forEach((rule) => {
+    const result = detectionRuleSchema.safeParse(rule);
+    if (!result.success) {
+      console.warn('Dropping saved rule that is no longer valid:', rule, result.error.issues);
+    } else if (!rules.some((item) => item.id === result.data.id)) {
+      rules.push(result.data as DetectionRule);
+    }
+  });
+  return rules;
+};
+
+/**
+ * How a rule set differs from the defaults. Only this is saved, so default
+ * rules added in later versions still apply to a saved rule set.
+ */
+export interface RuleOverrides {
+  order: string[]; // Ids of the whole set in priority order
+  changed: DetectionRule[]; // Custom rules and edited default rules
+  removed: string[]; // Ids of default rules taken out
+}
+
+export const getRuleOverrides = (
+  rules: DetectionRule[],
+  defaults: DetectionRule[] = DEFAULT_DETECTION_RULES
+): RuleOverrides => {
+  const byId = new Map(defaults.map((rule) => [rule.id, canonicalJson(rule)]));
+  return {
+    order: rules.map((rule) => rule.id),
+    changed: rules.filter((rule) => byId.get(rule.id) !== canonicalJson(rule)),
+    removed: defaults.map((rule) => rule.id).filter((id) => !rules.some((rule) => rule.id === id)),
+  };
+};
+
+/**
+ * Rebuild a rule set from saved overrides. Default rules the overrides do
+ * not know about are placed after the rule that precedes them in the
+ * defaults; overrides that can no longer be used are dropped.
+ */
+export const applyRuleOverrides = (
+  overrides: Partial<RuleOverrides>,
+  defaults: DetectionRule[] = DEFAULT_DETECTION_RULES
+): DetectionRule[] => {
+  const rules = new Map(defaults.map((rule) => [rule.id, rule]));
+  restoreRules(overrides.changed).forEach((rule) => rules.set(rule.id, rule));
+  const removed = new Set(Array.isArray(overrides.removed) ? overrides.removed : []);
+  const order = Array.isArray(overrides.order) ? overrides.order : [];
+
+  const result = order
+    .filter((id, index) => order.indexOf(id) === index && !removed.has(id))
+    .map((id) => rules.get(id))
+    .filter((rule): rule is DetectionRule => Boolean(rule));
+  defaults.forEach((rule, index) => {
+    if (order.includes(rule.id) || removed.has(rule.id)) return;
+    const previous = defaults.slice(0, index).reverse().find((item) => result.some(({ id }) => id === item.id));
+    result.splice(previous ? result.findIndex(({ id }) => id === previous.id) + 1 : 0, 0, rule);
+  });
+  return result;
+};
+
+/**
+ * Flatten the latest audio analysis into rule signals
+ */
+export const getAudioRuleSignals = (
+  audio: DetectionSignals['audio'] = null
+): Record<AudioSignal, SignalValue> => ({
+  audioEnabled: audio !== null,
+  speechDetected: audio?.speechDetected ?? false,
+  speechProbability: audio?.speechProbability ?? null,
+  speechConfidence: audio?.segment?.confidence ?? null,
+  speechStart: audio?.segment?.start ?? null,
+  audioLevel: audio && Number.isFinite(audio.level) ? audio.level : null,
+  audioCalibrating: audio?.calibrating ?? false,
+  noiseFloor: audio?.noiseFloor ?? null,
+  voiceCount: audio?.voices.voiceCount ?? null,
+  voiceSeparation: audio?.voices.separation ?? null,
+  multipleVoicesConfidence: audio?.voices.confidence ?? null,
+  secondVoiceStart: audio?.voices.segments.find((segment) => segment.voice === 2)?.start ?? null,
+  voiceSegments: audio?.voices.segments
+    .map((segment) => `${segment.start}-${segment.end} (voice ${segment.voice})`)
+    .join(', ') ?? null,
+  volumeLevel: audio?.volumeLevel ?? null,
+  microphoneIssue: audio?.microphone.issue ?? null,
+  microphoneDevice: audio?.microphone.deviceLabel ?? null,
+  silentFor: audio?.microphone.silentFor ?? null,
+});
+
+/**
+ * Flatten everything known about the current tick into rule signals
+ */
+export const getRuleSignals = (
+  session: DetectionSession,
+  signals: DetectionSignals
+): TickSignals => {
+  const {
+    facePresent,
+    faceCount,
+    lookingAway,
+    faceScores = [],
+    headPose = null,
+    identity = null,
+    prohibitedObjects = [],
+    liveness = null,
+    frameQuality = null,
+    audio,
+  } = signals;
+  const sortedScores = [...faceScores].sort((a, b) => b - a);
+  const similarity = identity?.similarity ?? null;
+
+  return {
+    facePresent,
+    faceCount,
+    framesSinceFaceDetected: session.framesSinceFaceDetected,
+    faceAbsentProgress: Math.min(1, session.framesSinceFaceDetected / session.config.faceDisappearanceThreshold),
+    faceScores: sortedScores.map((score) => score.toFixed(2)).join(', '),
+    secondFaceScore: sortedScores[1] ?? 1,
+    lookingAway,
+    yaw: headPose?.yaw ?? null,
+    pitch: headPose?.pitch ?? null,
+    roll: headPose?.roll ?? null,
+    identityMismatch: identity?.identityMismatch ?? false,
+    similarity,
+    similarityPercent: Math.round((similarity ?? 0) * 100),
+    identityConfidence: 1 - (similarity ?? 0),
+    prohibitedObjectCount: prohibitedObjects.length,
+    objectNames: Array.from(new Set(prohibitedObjects.map((object) => getObjectName(object.label)))).join(', '),
+    objects: prohibitedObjects.map((object) => `${object.label} (${object.score.toFixed(2)})`).join(', '),
+    objectConfidence: prohibitedObjects.length > 0 ? Math.max(...prohibitedObjects.map((object) => object.score)) : 0,
+    replayDetected: liveness?.replayDetected ?? false,
+    staticFeed: liveness?.staticFeed ?? false,
+    noLifeSigns: liveness?.noLifeSigns ?? false,
+    repeatedFrames: liveness?.repeatedFrames ?? null,
+    frameDifference: liveness?.frameDifference ?? null,
+    blinkCount: liveness?.blinkCount ?? null,
+    microMotion: liveness?.microMotion ?? null,
+    frameIssue: frameQuality?.issue ?? null,
+    brightness: frameQuality?.brightness ?? null,
+    contrast: frameQuality?.contrast ?? null,
+    sharpness: frameQuality?.sharpness ?? null,
+    frozenFor: frameQuality?.frozenFor ?? null,
+    ...getAudioRuleSignals(audio),
+  };
+};
+
+// Signals that stay current on a tick without a video frame
+const SIGNALS_WITHOUT_VIDEO = new Set<RuleSignal>([...AUDIO_SIGNALS, 'videoAge', 'sessionElapsed']);
+
+const getConditionSignals = (condition: RuleCondition): RuleSignal[] => {
+  if ('signal' in condition) return [condition.signal];
+  if ('all' in condition) return condition.all.flatMap(getConditionSignals);
+  if ('any' in condition) return condition.any.flatMap(getConditionSignals);
+  if ('not' in condition) return getConditionSignals(condition.not);
+  if ('during' in condition) return [...getConditionSignals(condition.during), ...getConditionSignals(condition.condition)];
+  return getConditionSignals(condition.condition);
+};
+
+/**
+ * Whether a rule reads only audio and session signals, so it can run on a
+ * tick without a video frame
+ */
+export const needsNoVideo = (rule: DetectionRule): boolean => [
+  ...getConditionSignals(rule.when),
+  ...(typeof rule.confidence === 'string' ? [rule.confidence] : []),
+  ...rule.metrics,
+].every((signal) => SIGNALS_WITHOUT_VIDEO.has(signal));
+
+// Memory of one stateful condition node
+type NodeState =
+  | { kind: 'heldFor'; since: number | null }
+  | { kind: 'count'; wasTrue: boolean; risings: number[] }
+  | { kind: 'during'; seen: boolean };
+
+// Comparisons against a missing signal never hold
+const compare = (actual: SignalValue, op: CompareOperator, expected: number | boolean | string): boolean => {
+  if (actual === null || actual === undefined) return false;
+  if (op === 'eq') return actual === expected;
+  if (op === 'neq') return actual !== expected;
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (op) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+  }
+};
+
+// Fill {signal} placeholders in a rule message
+const formatMessage = (message: string, signals: RuleSignals): string =>
+  message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = signals[name as RuleSignal];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value ?? '');
+  });
+
+/**
+ * Evaluates the detection rules once per tick and reports the rules that hold
+ * as conditions for the StatusMachine, which then decides how long each must
+ * last to become an incident. Every node is evaluated on every tick, even
+ * when the result is already decided, so time-based conditions keep an
+ * accurate history.
+ */
+export class RuleEngine {
+  config: RuleEngineConfig;
+  private states = new Map<string, NodeState>();
+  private startTime = Date.now();
+  private lastVideoTick = Date.now(); // Frames are expected from when monitoring starts
+
+  constructor(config: Partial<RuleEngineConfig> = {}) {
+    this.config = { ...DEFAULT_RULE_ENGINE_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<RuleEngineConfig>): void {
+    const previous = this.config.rules;
+    this.config = { ...this.config, ...config };
+    // Node paths only stay meaningful while the rules are the same
+    if (this.config.rules !== previous) {
+      this.states.clear();
+    }
+  }
+
+  /**
+   * Evaluate every enabled rule against the signals of a video frame
+   * @returns Conditions of the matching rules, in rule order
+   */
+  evaluate(frameSignals: TickSignals, now = Date.now()): StatusCondition[] {
+    this.lastVideoTick = now;
+    const signals: RuleSignals = { ...frameSignals, videoAge: 0, sessionElapsed: now - this.startTime };
+    return this.evaluateRules(this.config.rules, signals, now);
+  }
+
+  /**
+   * Evaluate only the rules that need no video, on a tick driven by audio
+   * while video frames are late. Video signals read as null, and the other
+   * rules keep their history untouched until the next frame.
+   * @returns Conditions of the matching rules, in rule order
+   */
+  evaluateAudio(audioSignals: Record<AudioSignal, SignalValue>, now = Date.now()): StatusCondition[] {
+    const signals = {
+      ...Object.fromEntries(RULE_SIGNALS.map((signal) => [signal, null])),
+      ...audioSignals,
+      videoAge: now - this.lastVideoTick,
+      sessionElapsed: now - this.startTime,
+    } as RuleSignals;
+    return this.evaluateRules(this.config.rules.filter(needsNoVideo), signals, now);
+  }
+
+  /**
+   * Categories that ticks driven by audio decide: those with an enabled rule
+   * that needs no video. The others should be left as they are on such ticks.
+   */
+  getAudioCategories(): DetectionCategory[] {
+    return Array.from(new Set(this.config.rules
+      .filter((rule) => rule.enabled && needsNoVideo(rule))
+      .map((rule) => rule.category)));
+  }
+
+  /**
+   * Forget the history of every condition
+   * @param startTime When monitoring started, for sessionElapsed
+   */
+  reset(startTime = Date.now()): void {
+    this.states.clear();
+    this.startTime = startTime;
+    this.lastVideoTick = Date.now();
+  }
+
+  private evaluateRules(rules: DetectionRule[], signals: RuleSignals, now: number): StatusCondition[] {
+    const conditions: StatusCondition[] = [];
+    let suppressed = false;
+
+    rules.forEach((rule) => {
+      if (!rule.enabled) return;
+      const matched = this.evaluateCondition(rule.when, `${rule.id}:when`, signals, now);
+      if (!matched || suppressed) return;
+
+      const confidence = typeof rule.confidence === 'number' ? rule.confidence : signals[rule.confidence];
+      const metrics: IncidentMetrics = {};
+      rule.metrics.forEach((signal) => {
+        if (signals[signal] !== null) metrics[signal] = signals[signal];
+      });
+      conditions.push({
+        status: rule.status,
+        message: formatMessage(rule.message, signals),
+        category: rule.category,
+        confidence: typeof confidence === 'number' ? Math.min(1, Math.max(0, confidence)) : 1,
+        metrics,
+      });
+      if (rule.exclusive) suppressed = true;
+    });
+
+    return conditions;
+  }
+
+  private evaluateCondition(condition: RuleCondition, path: string, signals: RuleSignals, now: number): boolean {
+    if ('signal' in condition) {
+      return compare(signals[condition.signal], condition.op, condition.value);
+    }
+    if ('all' in condition) {
+      return condition.all
+        .map((child, index) => this.evaluateCondition(child, `${path}.all${index}`, signals, now))
+        .every(Boolean);
+    }
+    if ('any' in condition) {
+      return condition.any
+        .map((child, index) => this.evaluateCondition(child, `${path}.any${index}`, signals, now))
+        .some(Boolean);
+    }
+    if ('not' in condition) {
+      return !this.evaluateCondition(condition.not, `${path}.not`, signals, now);
+    }
+    if ('heldFor' in condition) {
+      const holds = this.evaluateCondition(condition.condition, `${path}.heldFor`, signals, now);
+      const state = this.getState(path, { kind: 'heldFor', since: null });
+      state.since = holds ? state.since ?? now : null;
+      return holds && now - state.since >= condition.heldFor;
+    }
+    if ('count' in condition) {
+      const holds = this.evaluateCondition(condition.condition, `${path}.count`, signals, now);
+      const state = this.getState(path, { kind: 'count', wasTrue: false, risings: [] });
+      if (holds && !state.wasTrue) state.risings.push(now);
+      state.wasTrue = holds;
+      state.risings = state.risings.filter((time) => now - time <= condition.within);
+      return state.risings.length >= condition.count;
+    }
+    const during = this.evaluateCondition(condition.during, `${path}.during`, signals, now);
+    const holds = this.evaluateCondition(condition.condition, `${path}.condition`, signals, now);
+    const state = this.getState(path, { kind: 'during', seen: false });
+    state.seen = during && (state.seen || holds);
+    return state.seen;
+  }
+
+  private getState<Kind extends NodeState['kind']>(
+    path: string,
+    initial: Extract<NodeState, { kind: Kind }>
+  ): Extract<NodeState, { kind: Kind }> {
+    const state = this.states.get(path);
+    if (state?.kind === initial.kind) return state as Extract<NodeState, { kind: Kind }>;
+    this.states.set(path, initial);
+    return initial;
+  }
+}
@@ -0,0 +1,475 @@
+import type { CalibrationBaseline } from './calibrationUtils';
+import type { DetectionCategory, StatusLevel } from './detectionUtils';
+import type { DetectionConfig } from './detectionConfig';
+import type { EvidenceItem } from './evidenceUtils';
+import type { IdentityEnrollment } from './identityUtils';
+import type { Incident, IncidentSeverity } from './incidentUtils';
+import type { LogEntry } from './integrityUtils';
+import type { SpeechSegment } from './voiceActivity';
+
+export type SessionState = 'active' | 'completed' | 'interrupted';
+
+// One monitoring run, from Start Monitoring to Stop Monitoring
+export interface SessionRecord {
+  id: string;
+  startTime: number;
+  endTime: number | null;
+  state: SessionState;
+  lastHeartbeat: number; // Last time the page was known to be monitoring
+  reloadCount: number;
+  config: DetectionConfig;
+  baseline: CalibrationBaseline | null;
+  enrollment: IdentityEnrollment | null; // Face enrolled for identity checks, once enrolled
+}
+
+export interface StoredIncident extends Incident {
+  sessionId: string;
+}
+
+// Periodic snapshot of the live metrics, for timelines and reports
+export interface MetricSample {
+  sessionId: string;
+  timestamp: number;
+  status: StatusLevel;
+  attention: number; // 0-100
+  faceCount: number;
+  lookingAway: boolean;
+  volumeLevel: number | null; // 0-1, or null while audio is off
+  framesAnalysed: number; // Frames analysed since the previous sample
+  framesDropped: number; // Frames dropped since the previous sample
+  hidden: boolean; // Page was hidden at some point since the previous sample
+}
+
+// A finished speech segment heard during the session
+export interface StoredSpeechSegment extends SpeechSegment {
+  sessionId: string;
+  end: number;
+}
+
+// Evidence blobs are stored without their object URL, which only lives as long as the page
+export interface StoredEvidence extends Omit<EvidenceItem, 'url'> {
+  sessionId: string;
+}
+
+export interface IncidentQuery {
+  from?: number;
+  to?: number;
+  categories?: DetectionCategory[];
+  severity?: IncidentSeverity;
+}
+
+export interface TimeRangeQuery {
+  from?: number;
+  to?: number;
+}
+
+const DB_NAME = 'cheatguardian';
+const DB_VERSION = 3;
+
+const SESSIONS = 'sessions';
+const INCIDENTS = 'incidents';
+const SAMPLES = 'samples';
+const EVIDENCE = 'evidence';
+const LOG = 'log';
+const KEYS = 'keys';
+const SPEECH = 'speech';
+
+// An active session last seen longer ago than this is not resumed
+export const RESUME_WINDOW = 30 * 60 * 1000;
+
+// Finished sessions are deleted, with their evidence, once they are this old
+export const SESSION_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A new active session record; the id is known before it has been saved
+ */
+export const createSessionRecord = (
+  config: DetectionConfig,
+  baseline: CalibrationBaseline | null,
+  now = Date.now()
+): SessionRecord => ({
+  id: `session-${now}`,
+  startTime: now,
+  endTime: null,
+  state: 'active',
+  lastHeartbeat: now,
+  reloadCount: 0,
+  config,
+  baseline,
+  enrollment: null,
+});
+
+/**
+ * Incident covering the gap while the page was reloading, from the last
+ * heartbeat before the reload until the session was resumed
+ */
+export const createReloadIncident = (session: SessionRecord, now = Date.now()): Incident => ({
+  id: `incident-${now}-reload`,
+  category: 'pageReload',
+  severity: 'warning',
+  message: 'Page was reloaded during monitoring',
+  startTime: session.lastHeartbeat,
+  endTime: now,
+  confidence: 1,
+  metrics: {
+    gapSeconds: Math.round((now - session.lastHeartbeat) / 1000),
+    reloadCount: session.reloadCount + 1,
+  },
+});
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+// Key range over a [sessionId, timestamp] index or a [sessionId, sequence] key
+const sessionRange = (sessionId: string, { from, to }: TimeRangeQuery = {}): IDBKeyRange =>
+  IDBKeyRange.bound([sessionId, from ?? -Infinity], [sessionId, to ?? Infinity]);
+
+/**
+ * IndexedDB storage for monitoring sessions, their incidents, metric samples,
+ * speech segments and evidence, so the record survives a page reload
+ */
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open the database, creating or upgrading it as needed
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          sessions.createIndex('state', 'state');
+          sessions.createIndex('startTime', 'startTime');
+
+          const incidents = db.createObjectStore(INCIDENTS, { keyPath: 'id' });
+          incidents.createIndex('session', ['sessionId', 'startTime']);
+
+          const samples = db.createObjectStore(SAMPLES, { autoIncrement: true });
+          samples.createIndex('session', ['sessionId', 'timestamp']);
+
+          const evidence = db.createObjectStore(EVIDENCE, { keyPath: 'id' });
+          evidence.createIndex('session', ['sessionId', 'createdAt']);
+          evidence.createIndex('incident', 'incidentId');
+        }
+        // Version 2 adds the hash-chained incident log and per-session signing keys
+        if (event.oldVersion < 2) {
+          db.createObjectStore(LOG, { keyPath: ['sessionId', 'sequence'] });
+          db.createObjectStore(KEYS, { keyPath: 'sessionId' });
+        }
+        // Version 3 adds the speech segments
+        if (event.oldVersion < 3) {
+          const speech = db.createObjectStore(SPEECH, { autoIncrement: true });
+          speech.createIndex('session', ['sessionId', 'start']);
+        }
+      };
+      this.db = promisifyRequest(request);
+      // Allow a later retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  close(): void {
+    this.db?.then((db) => db.close()).catch(() => undefined);
+    this.db = null;
+  }
+
+  // Sessions
+
+  async saveSession(session: SessionRecord): Promise<void> {
+    await this.put(SESSIONS, session);
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const db = await this.open();
+    const session = await promisifyRequest(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+    return session ?? null;
+  }
+
+  /**
+   * All sessions, newest first
+   */
+  async listSessions(): Promise<SessionRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(SESSIONS).objectStore(SESSIONS).index('startTime');
+    const sessions: SessionRecord[] = await promisifyRequest(index.getAll());
+    return sessions.reverse();
+  }
+
+  /**
+   * The session that was still monitoring when the page went away, if any
+   */
+  async getActiveSession(): Promise<SessionRecord | null> {
+    const db = await this.open();
+    const index = db.transaction(SESSIONS).objectStore(SESSIONS).index('state');
+    const active: SessionRecord[] = await promisifyRequest(index.getAll('active'));
+    return active.sort((a, b) => b.startTime - a.startTime)[0] ?? null;
+  }
+
+  /**
+   * Change some fields of a session. The read and the write share one
+   * transaction, so concurrent updates cannot undo each other.
+   */
+  async updateSession(id: string, changes: Partial<Omit<SessionRecord, 'id'>>): Promise<SessionRecord | null> {
+    const db = await this.open();
+    const transaction = db.transaction(SESSIONS, 'readwrite');
+    const store = transaction.objectStore(SESSIONS);
+    const session: SessionRecord | undefined = await promisifyRequest(store.get(id));
+    const updated = session ? { ...session, ...changes } : null;
+    if (updated) store.put(updated);
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * Delete a session and everything recorded for it
+   */
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([SESSIONS, INCIDENTS, SAMPLES, SPEECH, EVIDENCE, LOG, KEYS], 'readwrite');
+    transaction.objectStore(SESSIONS).delete(id);
+    transaction.objectStore(LOG).delete(sessionRange(id));
+    transaction.objectStore(KEYS).delete(id);
+    [INCIDENTS, SAMPLES, SPEECH, EVIDENCE].forEach((name) => {
+      const request = transaction.objectStore(name).index('session').openCursor(sessionRange(id));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Delete every finished session that ended before the given time
+   * @returns Ids of the deleted sessions
+   */
+  async deleteSessionsBefore(time: number): Promise<string[]> {
+    const sessions = await this.listSessions();
+    const expired = sessions
+      .filter((session) => session.state !== 'active' && (session.endTime ?? session.lastHeartbeat) < time)
+      .map((session) => session.id);
+    for (const id of expired) {
+      await this.deleteSession(id);
+    }
+    return expired;
+  }
+
+  // Incidents
+
+  async saveIncidents(sessionId: string, incidents: Incident[]): Promise<void> {
+    if (incidents.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(INCIDENTS, 'readwrite');
+    const store = transaction.objectStore(INCIDENTS);
+    incidents.forEach((incident) => store.put({ ...incident, sessionId }));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Incidents of a session, oldest first
+   */
+  async getIncidents(sessionId: string, query: IncidentQuery = {}): Promise<StoredIncident[]> {
+    const db = await this.open();
+    const index = db.transaction(INCIDENTS).objectStore(INCIDENTS).index('session');
+    const incidents: StoredIncident[] = await promisifyRequest(index.getAll(sessionRange(sessionId, query)));
+    return incidents.filter((incident) =>
+      (!query.categories || query.categories.includes(incident.category)) &&
+      (!query.severity || incident.severity === query.severity)
+    );
+  }
+
+  // Metric samples
+
+  async addSamples(samples: MetricSample[]): Promise<void> {
+    if (samples.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(SAMPLES, 'readwrite');
+    const store = transaction.objectStore(SAMPLES);
+    samples.forEach((sample) => store.add(sample));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Metric samples of a session, oldest first
+   */
+  async getSamples(sessionId: string, query: TimeRangeQuery = {}): Promise<MetricSample[]> {
+    const db = await this.open();
+    const index = db.transaction(SAMPLES).objectStore(SAMPLES).index('session');
+    return promisifyRequest(index.getAll(sessionRange(sessionId, query)));
+  }
+
+  // Speech segments
+
+  async addSpeechSegments(segments: StoredSpeechSegment[]): Promise<void> {
+    if (segments.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(SPEECH, 'readwrite');
+    const store = transaction.objectStore(SPEECH);
+    segments.forEach((segment) => store.add(segment));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Speech segments of a session, oldest first
+   */
+  async getSpeechSegments(sessionId: string, query: TimeRangeQuery = {}): Promise<StoredSpeechSegment[]> {
+    const db = await this.open();
+    const index = db.transaction(SPEECH).objectStore(SPEECH).index('session');
+    return promisifyRequest(index.getAll(sessionRange(sessionId, query)));
+  }
+
+  // Evidence
+
+  async saveEvidence(sessionId: string, item: EvidenceItem): Promise<void> {
+    const stored: StoredEvidence = {
+      id: item.id,
+      kind: item.kind,
+      incidentId: item.incidentId,
+      blob: item.blob,
+      createdAt: item.createdAt,
+      startTime: item.startTime,
+      endTime: item.endTime,
+      sessionId,
+    };
+    await this.put(EVIDENCE, stored);
+  }
+
+  async getEvidence(id: string): Promise<StoredEvidence | null> {
+    const db = await this.open();
+    const evidence = await promisifyRequest(db.transaction(EVIDENCE).objectStore(EVIDENCE).get(id));
+    return evidence ?? null;
+  }
+
+  async getIncidentEvidence(incidentId: string): Promise<StoredEvidence[]> {
+    const db = await this.open();
+    const index = db.transaction(EVIDENCE).objectStore(EVIDENCE).index('incident');
+    return promisifyRequest(index.getAll(incidentId));
+  }
+
+  /**
+   * Evidence of a session, oldest first
+   */
+  async getSessionEvidence(sessionId: string): Promise<StoredEvidence[]> {
+    const db = await this.open();
+    const index = db.transaction(EVIDENCE).objectStore(EVIDENCE).index('session');
+    return promisifyRequest(index.getAll(sessionRange(sessionId)));
+  }
+
+  /**
+   * Delete the oldest snapshots of a session beyond the given number
+   * @returns Ids of the deleted snapshots
+   */
+  async limitSnapshots(sessionId: string, maxSnapshots: number): Promise<string[]> {
+    const db = await this.open();
+    const transaction = db.transaction(EVIDENCE, 'readwrite');
+    const store = transaction.objectStore(EVIDENCE);
+    const evidence: StoredEvidence[] = await promisifyRequest(store.index('session').getAll(sessionRange(sessionId)));
+    const snapshots = evidence.filter((item) => item.kind === 'snapshot');
+    const deleted = snapshots.slice(0, Math.max(0, snapshots.length - maxSnapshots)).map((item) => item.id);
+    deleted.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+    return deleted;
+  }
+
+  /**
+   * Delete the oldest saved clips, across all sessions, until the rest fit
+   * in the byte budget. Snapshots are small and always kept.
+   * @returns Ids of the deleted clips
+   */
+  async limitClipBytes(maxBytes: number): Promise<string[]> {
+    const db = await this.open();
+    const transaction = db.transaction(EVIDENCE, 'readwrite');
+    const store = transaction.objectStore(EVIDENCE);
+    const evidence: StoredEvidence[] = await promisifyRequest(store.getAll());
+    const clips = evidence
+      .filter((item) => item.kind === 'clip')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    let total = clips.reduce((sum, item) => sum + item.blob.size, 0);
+    const deleted: string[] = [];
+    while (total > maxBytes && clips.length > 0) {
+      const oldest = clips.shift();
+      total -= oldest.blob.size;
+      store.delete(oldest.id);
+      deleted.push(oldest.id);
+    }
+    await transactionDone(transaction);
+    return deleted;
+  }
+
+  // Incident log
+
+  /**
+   * Append an entry to the incident log. Fails if an entry with the same
+   * sequence number exists, so entries cannot be overwritten through this API.
+   */
+  async appendLogEntry(entry: LogEntry): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(LOG, 'readwrite');
+    transaction.objectStore(LOG).add(entry);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Log entries of a session in sequence order
+   */
+  async getLogEntries(sessionId: string): Promise<LogEntry[]> {
+    const db = await this.open();
+    return promisifyRequest(db.transaction(LOG).objectStore(LOG).getAll(sessionRange(sessionId)));
+  }
+
+  async getLastLogEntry(sessionId: string): Promise<LogEntry | null> {
+    const db = await this.open();
+    const request = db.transaction(LOG).objectStore(LOG).openCursor(sessionRange(sessionId), 'prev');
+    const cursor = await promisifyRequest(request);
+    return cursor ? cursor.value : null;
+  }
+
+  // The private key is stored as a non-extractable CryptoKey
+  async saveSigningKey(sessionId: string, privateKey: CryptoKey): Promise<void> {
+    await this.put(KEYS, { sessionId, privateKey });
+  }
+
+  async getSigningKey(sessionId: string): Promise<CryptoKey | null> {
+    const db = await this.open();
+    const record = await promisifyRequest(db.transaction(KEYS).objectStore(KEYS).get(sessionId));
+    return record?.privateKey ?? null;
+  }
+
+  // Once a log is closed or abandoned nothing may sign for it again
+  async deleteSigningKey(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(KEYS, 'readwrite');
+    transaction.objectStore(KEYS).delete(sessionId);
+    await transactionDone(transaction);
+  }
+
+  private async put(storeName: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value);
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,357 @@
+// Tells voices apart by their pitch and timbre. Speech frames are summarised
+// into short chunks, and the chunks of recent speech are split into two
+// clusters to see whether they came from more than one voice. Like
+// voiceActivity, kept free of Web Audio and DOM APIs.
+
+export interface SpeakerConfig {
+  minPitch: number; // Hz
+  maxPitch: number; // Hz
+  chunkDuration: number; // ms of speech summarised into one voice sample
+  speakerWindow: number; // ms of recent speech compared
+  minVoiceChunks: number; // Chunks each voice needs before it counts
+  voiceSeparation: number; // Distance between two clusters, in within-cluster spreads, from which they are different voices
+}
+
+export const DEFAULT_SPEAKER_CONFIG: SpeakerConfig = {
+  minPitch: 70,
+  maxPitch: 400,
+  chunkDuration: 1000,
+  speakerWindow: 15000,
+  minVoiceChunks: 3,
+  voiceSeparation: 5,
+};
+
+// Measurements of one speech frame
+export interface SpeakerFeatures {
+  pitch: number | null; // Hz; null when the frame is unvoiced, e.g. whispered
+  mfcc: number[]; // Mel-frequency cepstral coefficients 1-12; the level-dependent 0th is left out
+}
+
+// A stretch of speech from one voice
+export interface VoiceSegment {
+  start: number;
+  end: number;
+  voice: number; // 1 for the voice heard first in the window, 2 for the other
+}
+
+export interface SpeakerEstimate {
+  voiceCount: number; // 0 without enough speech to judge, otherwise 1 or 2
+  separation: number | null; // How far apart the two most distinct groups of speech are
+  confidence: number; // That more than one voice is present (0-1)
+  segments: VoiceSegment[]; // Each voice's speech within the window, oldest first
+}
+
+// Summary of chunkDuration of one stretch of speech
+interface VoiceChunk {
+  start: number;
+  end: number;
+  vector: number[]; // MFCCs, then pitch in semitones, which is NaN for unvoiced (whispered) speech
+}
+
+// Autocorrelation peak from which a frame counts as voiced
+const VOICING_THRESHOLD = 0.5;
+// Shorter lags within this share of the best peak win, avoiding octave errors
+const OCTAVE_TOLERANCE = 0.9;
+const MEL_FILTERS = 24;
+const MFCC_COUNT = 12;
+const MEL_LOW = 100; // Hz
+const MEL_HIGH = 4000; // Hz
+// Share of voiced frames a chunk needs for its pitch to be used
+const MIN_VOICED_SHARE = 0.25;
+const KMEANS_ITERATIONS = 10;
+// Perfectly tight clusters would otherwise score infinitely far apart
+const MAX_SEPARATION = 100;
+
+const EMPTY_ESTIMATE: SpeakerEstimate = { voiceCount: 0, separation: null, confidence: 0, segments: [] };
+
+const toMel = (frequency: number) => 2595 * Math.log10(1 + frequency / 700);
+const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Triangular mel filters as [start, centre, end] bins, per spectrum size and sample rate
+const filterBanks = new Map<string, [number, number, number][]>();
+
+const getFilterBank = (bins: number, sampleRate: number) => {
+  const key = `${bins}:${sampleRate}`;
+  let bank = filterBanks.get(key);
+  if (!bank) {
+    const binWidth = sampleRate / (2 * bins);
+    const low = toMel(MEL_LOW);
+    const high = toMel(Math.min(MEL_HIGH, sampleRate / 2));
+    const edges = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+      Math.min(bins - 1, Math.round(fromMel(low + ((high - low) * i) / (MEL_FILTERS + 1)) / binWidth)));
+    bank = Array.from({ length: MEL_FILTERS }, (_, i) =>
+      [edges[i], edges[i + 1], edges[i + 2]] as [number, number, number]);
+    filterBanks.set(key, bank);
+  }
+  return bank;
+};
+
+/**
+ * Fundamental frequency from the normalised autocorrelation
+ * @returns Hz, or null when no lag correlates well enough for voiced speech
+ */
+export const estimatePitch = (
+  samples: Float32Array,
+  sampleRate: number,
+  config: SpeakerConfig = DEFAULT_SPEAKER_CONFIG
+): number | null => {
+  const size = samples.length;
+  const minLag = Math.max(1, Math.floor(sampleRate / config.maxPitch));
+  // Keep at least a quarter of the frame overlapping
+  const maxLag = Math.min(Math.ceil(sampleRate / config.minPitch), Math.floor((size * 3) / 4));
+  if (minLag >= maxLag) return null;
+
+  // Running energy of the leading and trailing parts of the frame
+  const energy = new Float64Array(size + 1);
+  for (let i = 0; i < size; i++) {
+    energy[i + 1] = energy[i] + samples[i] * samples[i];
+  }
+
+  const correlations = new Float64Array(maxLag + 1);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < size; i++) {
+      sum += samples[i] * samples[i + lag];
+    }
+    const norm = Math.sqrt(energy[size - lag] * (energy[size] - energy[lag]));
+    correlations[lag] = norm > 0 ? sum / norm : 0;
+    best = Math.max(best, correlations[lag]);
+  }
+  if (best < VOICING_THRESHOLD) return null;
+
+  // The first local peak close to the best one is the fundamental
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = correlations[lag];
+    const isPeak = value >= correlations[lag - 1] && value >= (correlations[lag + 1] ?? 0);
+    if (isPeak && value >= best * OCTAVE_TOLERANCE) {
+      return sampleRate / lag;
+    }
+  }
+  return null;
+};
+
+/**
+ * Mel-frequency cepstral coefficients 1-12 of a power spectrum
+ * @param spectrum Linear power per frequency bin, from 0 Hz up to half the sample rate
+ */
+export const computeMfcc = (spectrum: Float32Array, sampleRate: number): number[] => {
+  const logEnergies = getFilterBank(spectrum.length, sampleRate).map(([start, centre, end]) => {
+    let energy = 0;
+    for (let i = start; i <= end; i++) {
+      const weight = i <= centre
+        ? (centre > start ? (i - start) / (centre - start) : 1)
+        : (end > centre ? (end - i) / (end - centre) : 1);
+      energy += spectrum[i] * weight;
+    }
+    return Math.log(energy + 1e-12);
+  });
+
+  return Array.from({ length: MFCC_COUNT }, (_, index) => {
+    const k = index + 1;
+    return logEnergies.reduce(
+      (sum, value, m) => sum + value * Math.cos((Math.PI * k * (m + 0.5)) / MEL_FILTERS),
+      0
+    ) * Math.sqrt(2 / MEL_FILTERS);
+  });
+};
+
+/**
+ * Measure one speech frame
+ */
+export const computeSpeakerFeatures = (
+  samples: Float32Array,
+  spectrum: Float32Array,
+  sampleRate: number,
+  config: SpeakerConfig = DEFAULT_SPEAKER_CONFIG
+): SpeakerFeatures => ({
+  pitch: estimatePitch(samples, sampleRate, config),
+  mfcc: computeMfcc(spectrum, sampleRate),
+});
+
+// Features missing from either vector, such as the pitch of whispered speech,
+// are left out rather than counted as a difference
+const distanceSquared = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => (Number.isNaN(value) || Number.isNaN(b[i]) ? sum : sum + (value - b[i]) ** 2), 0);
+
+// Mean of each feature over the vectors that have it, NaN if none do
+const mean = (vectors: number[][]) =>
+  vectors[0].map((_, i) => {
+    const values = vectors.map((vector) => vector[i]).filter((value) => !Number.isNaN(value));
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : NaN;
+  });
+
+// Fill missing features in from a centre, so they add no spread around it
+const fillFrom = (vector: number[], centre: number[]) =>
+  vector.map((value, i) => (Number.isNaN(value) ? centre[i] : value));
+
+/**
+ * Split chunks into two clusters, seeded with the two furthest apart
+ * @returns The cluster of each chunk
+ */
+const splitInTwo = (vectors: number[][]): number[] => {
+  const centre = mean(vectors);
+  const farthestFrom = (point: number[]) => vectors.reduce((best, vector, i) =>
+    distanceSquared(vector, point) > distanceSquared(vectors[best], point) ? i : best, 0);
+  const first = farthestFrom(centre);
+  let centroids = [vectors[first], vectors[farthestFrom(vectors[first])]];
+  let labels: number[] = [];
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const next = vectors.map((vector) =>
+      distanceSquared(vector, centroids[0]) <= distanceSquared(vector, centroids[1]) ? 0 : 1);
+    if (next.every((label, i) => label === labels[i])) break;
+    labels = next;
+    const groups = [0, 1].map((cluster) => vectors.filter((_, i) => labels[i] === cluster));
+    if (groups.some((group) => group.length === 0)) break;
+    centroids = groups.map(mean);
+  }
+  return labels;
+};
+
+/**
+ * Separation of two clusters along the line through their centres: the gap
+ * between them over their pooled spread. Splitting a single voice scores
+ * about 2.5-4; distinct voices score well above.
+ */
+const getSeparation = (vectors: number[][], labels: number[]): number => {
+  const groups = [0, 1].map((cluster) => vectors.filter((_, i) => labels[i] === cluster));
+  const [a, b] = groups.map(mean);
+  // A feature only one cluster has cannot tell them apart
+  const axis = a.map((value, i) => (Number.isNaN(value) || Number.isNaN(b[i]) ? 0 : b[i] - value));
+  const length = Math.sqrt(axis.reduce((sum, value) => sum + value * value, 0));
+  if (length === 0) return 0;
+
+  const project = (vector: number[]) =>
+    vector.reduce((sum, value, i) => (axis[i] === 0 ? sum : sum + value * axis[i]), 0) / length;
+  const [spreadA, spreadB] = groups.map((group, cluster) => {
+    const positions = group.map((vector) => project(fillFrom(vector, cluster === 0 ? a : b)));
+    const centre = positions.reduce((sum, value) => sum + value, 0) / positions.length;
+    return positions.reduce((sum, value) => sum + (value - centre) ** 2, 0) / positions.length;
+  });
+  const pooled = Math.sqrt((spreadA + spreadB) / 2);
+  return Math.min(length / Math.max(pooled, 1e-9), MAX_SEPARATION);
+};
+
+/**
+ * Follows the voices in recent speech. Feed it the speech frames; it
+ * summarises each chunkDuration of speech into timbre and, when voiced,
+ * pitch, and re-estimates the number of voices whenever the chunks in the
+ * window change. Whether speech was voiced is not compared, since one person
+ * talking and whispering would otherwise count as two voices.
+ */
+export class SpeakerTracker {
+  config: SpeakerConfig;
+  private frames: SpeakerFeatures[] = [];
+  private chunkStart: number | null = null;
+  private lastFrame = 0;
+  private chunks: VoiceChunk[] = [];
+  private estimate: SpeakerEstimate = EMPTY_ESTIMATE;
+
+  constructor(config: Partial<SpeakerConfig> = {}) {
+    this.config = { ...DEFAULT_SPEAKER_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<SpeakerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Feed one frame
+   * @param isSpeech Whether the frame is speech; other frames close the chunk in progress
+   */
+  update(
+    samples: Float32Array,
+    spectrum: Float32Array,
+    sampleRate: number,
+    isSpeech: boolean,
+    now = Date.now()
+  ): SpeakerEstimate {
+    let changed = false;
+    const frameDuration = (samples.length / sampleRate) * 1000;
+
+    if (isSpeech) {
+      this.chunkStart = this.chunkStart ?? now - frameDuration;
+      this.lastFrame = now;
+      this.frames.push(computeSpeakerFeatures(samples, spectrum, sampleRate, this.config));
+      if (this.frames.length * frameDuration >= this.config.chunkDuration) {
+        changed = this.closeChunk();
+      }
+    } else if (this.frames.length > 0) {
+      // A short remainder at the end of speech is too little to judge a voice by
+      changed = this.frames.length * frameDuration >= this.config.chunkDuration / 2 && this.closeChunk();
+      this.frames = [];
+      this.chunkStart = null;
+    }
+
+    const windowStart = now - this.config.speakerWindow;
+    if (this.chunks.length > 0 && this.chunks[0].end < windowStart) {
+      this.chunks = this.chunks.filter((chunk) => chunk.end >= windowStart);
+      changed = true;
+    }
+    if (changed) {
+      this.estimate = this.estimateVoices();
+    }
+    return this.estimate;
+  }
+
+  reset(): void {
+    this.frames = [];
+    this.chunkStart = null;
+    this.lastFrame = 0;
+    this.chunks = [];
+    this.estimate = EMPTY_ESTIMATE;
+  }
+
+  private closeChunk(): boolean {
+    const voiced = this.frames.filter((frame) => frame.pitch !== null);
+    // Pitch in semitones relative to 100 Hz, so an octave weighs the same for any voice
+    const pitch = voiced.length >= this.frames.length * MIN_VOICED_SHARE
+      ? voiced.reduce((sum, frame) => sum + 12 * Math.log2((frame.pitch ?? 100) / 100), 0) / voiced.length
+      : NaN;
+    this.chunks.push({
+      start: this.chunkStart ?? this.lastFrame,
+      end: this.lastFrame,
+      vector: [...mean(this.frames.map((frame) => frame.mfcc)), pitch],
+    });
+    this.frames = [];
+    this.chunkStart = null;
+    return true;
+  }
+
+  private estimateVoices(): SpeakerEstimate {
+    const { minVoiceChunks, voiceSeparation } = this.config;
+    if (this.chunks.length === 0) return EMPTY_ESTIMATE;
+
+    const oneVoice = this.toSegments(this.chunks.map(() => 1));
+    if (this.chunks.length < minVoiceChunks * 2) {
+      return { voiceCount: 1, separation: null, confidence: 0, segments: oneVoice };
+    }
+
+    const vectors = this.chunks.map((chunk) => chunk.vector);
+    const labels = splitInTwo(vectors);
+    const smaller = Math.min(...[0, 1].map((cluster) => labels.filter((label) => label === cluster).length));
+    const separation = smaller > 0 ? getSeparation(vectors, labels) : 0;
+    const confidence = Math.min(1, separation / (2 * voiceSeparation));
+    if (smaller < minVoiceChunks || separation < voiceSeparation) {
+      return { voiceCount: 1, separation, confidence, segments: oneVoice };
+    }
+
+    // Number the voices in the order they were first heard
+    const voices = labels.map((label) => (label === labels[0] ? 1 : 2));
+    return { voiceCount: 2, separation, confidence, segments: this.toSegments(voices) };
+  }
+
+  // Join neighbouring chunks of the same voice
+  private toSegments(voices: number[]): VoiceSegment[] {
+    return this.chunks.reduce<VoiceSegment[]>((segments, chunk, i) => {
+      const last = segments[segments.length - 1];
+      if (last && last.voice === voices[i] && chunk.start - last.end <= this.config.chunkDuration * 2) {
+        last.end = chunk.end;
+      } else {
+        segments.push({ start: chunk.start, end: chunk.end, voice: voices[i] });
+      }
+      return segments;
+    }, []);
+  }
+}
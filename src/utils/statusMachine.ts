@@ -0,0 +1,260 @@
+import {
+  DETECTION_CATEGORIES,
+  DetectionCategory,
+  StatusCondition,
+  StatusLevel,
+} from './detectionUtils';
+import type { EvidenceRef, Incident } from './incidentUtils';
+
+// How long a condition must hold before it is reported, and how long it must
+// be gone before the status recovers
+export interface StatusTiming {
+  warning: number; // ms the condition must hold before it shows as a warning
+  danger: number; // ms a danger-level condition must hold before it shows as danger
+  exit: number; // ms without the condition before its incident ends
+}
+
+export type StatusMachineConfig = Record<DetectionCategory, StatusTiming>;
+
+export const DEFAULT_STATUS_CONFIG: StatusMachineConfig = {
+  feedFrozen: { warning: 0, danger: 0, exit: 1000 }, // Already waits for frozenDuration
+  cameraCovered: { warning: 0, danger: 0, exit: 1000 }, // Frame quality issues wait for issueDuration
+  tooDark: { warning: 0, danger: 0, exit: 1000 },
+  outOfFocus: { warning: 0, danger: 0, exit: 1000 },
+  faceAbsent: { warning: 300, danger: 2000, exit: 1000 },
+  multipleFaces: { warning: 300, danger: 1000, exit: 1000 },
+  identityMismatch: { warning: 0, danger: 0, exit: 1000 }, // Already needs consecutive failed checks
+  liveness: { warning: 0, danger: 0, exit: 1000 },
+  prohibitedObject: { warning: 0, danger: 0, exit: 1000 },
+  lookingAway: { warning: 0, danger: 0, exit: 1000 }, // Already waits for lookingAwayDuration
+  audio: { warning: 500, danger: 0, exit: 1000 },
+  multipleVoices: { warning: 0, danger: 0, exit: 1000 }, // Already needs several chunks of each voice
+  microphone: { warning: 0, danger: 0, exit: 1000 }, // Silence already waits for silenceDuration
+  pageReload: { warning: 0, danger: 0, exit: 1000 }, // Recorded directly, never from frames
+};
+
+export const DEFAULT_DEDUPE_WINDOW = 10000;
+
+export const SAFE_STATUS_MESSAGE = 'Normal exam behavior';
+
+// Incidents are copied out of the machine, so callers can keep them as React state
+export interface StatusMachineResult {
+  status: StatusLevel;
+  message: string;
+  category?: DetectionCategory;
+  active: Incident[]; // Incidents currently being reported
+  started: Incident[]; // Incidents reported for the first time this update
+  escalated: Incident[]; // Incidents that rose from warning to danger this update
+  ended: Incident[]; // Incidents that finished this update
+  changed: Incident[]; // Every incident that was created or modified this update
+}
+
+interface CategoryState {
+  since: number; // First frame of the current stretch
+  lastSeen: number;
+  level: Exclude<StatusLevel, 'safe'> | null; // Current level; the incident keeps the peak as its severity
+  incident: Incident | null; // Set once the entry duration has passed
+}
+
+const MAX_INCIDENTS = 1000;
+
+/**
+ * Turns per-frame conditions into a stable status. Each category has to hold
+ * for its entry duration before it is reported and be gone for its exit
+ * duration before it clears, so a single missed detection neither raises nor
+ * clears an alarm. Every reported stretch becomes an incident with a start
+ * and end time; one that recurs within the dedupe window reopens the previous
+ * incident instead of raising a new one.
+ */
+export class StatusMachine {
+  config: StatusMachineConfig;
+  dedupeWindow: number; // ms after an incident ends during which it can be reopened
+  private states = new Map<DetectionCategory, CategoryState>();
+  private incidents: Incident[] = [];
+  private lastEnded = new Map<DetectionCategory, Incident>();
+  private nextId = 1;
+
+  constructor(config: Partial<StatusMachineConfig> = {}, dedupeWindow = DEFAULT_DEDUPE_WINDOW) {
+    this.config = { ...DEFAULT_STATUS_CONFIG, ...config };
+    this.dedupeWindow = dedupeWindow;
+  }
+
+  updateConfig(config: Partial<StatusMachineConfig>, dedupeWindow = this.dedupeWindow): void {
+    this.config = { ...this.config, ...config };
+    this.dedupeWindow = dedupeWindow;
+  }
+
+  /**
+   * Feed the conditions that hold in the current frame
+   * @param categories Categories the conditions decide; the others keep their
+   * state as it is, e.g. ones that need video on a tick driven by audio
+   */
+  update(
+    conditions: StatusCondition[],
+    now = Date.now(),
+    categories: readonly DetectionCategory[] = DETECTION_CATEGORIES
+  ): StatusMachineResult {
+    const started: Incident[] = [];
+    const escalated: Incident[] = [];
+    const ended: Incident[] = [];
+    const changed = new Set<Incident>();
+
+    categories.forEach((category) => {
+      const timing = this.config[category];
+      // Conditions are ordered by importance, so the first one per category wins
+      const condition = conditions.find((candidate) => candidate.category === category);
+      let state = this.states.get(category);
+
+      if (!condition) {
+        if (state && now - state.lastSeen >= timing.exit) {
+          if (state.incident) {
+            state.incident.endTime = state.lastSeen;
+            this.lastEnded.set(category, state.incident);
+            ended.push(state.incident);
+            changed.add(state.incident);
+          }
+          this.states.delete(category);
+        }
+        return;
+      }
+
+      if (!state) {
+        state = { since: now, lastSeen: now, level: null, incident: null };
+        this.states.set(category, state);
+      }
+      state.lastSeen = now;
+
+      const heldFor = now - state.since;
+      const level = condition.status === 'danger' && heldFor >= timing.danger
+        ? 'danger'
+        : heldFor >= timing.warning ? 'warning' : null;
+      if (!level) return;
+      state.level = level;
+
+      if (!state.incident) {
+        state.incident = this.openIncident(category, level, condition, state.since);
+        changed.add(state.incident);
+        if (state.incident.endTime === null) {
+          started.push(state.incident);
+          return;
+        }
+        // Reopened; otherwise treated like an incident that never ended
+        state.incident.endTime = null;
+      }
+
+      const { incident } = state;
+      if (level === 'danger' && incident.severity === 'warning') {
+        incident.severity = 'danger';
+        incident.metrics = condition.metrics;
+        escalated.push(incident);
+        changed.add(incident);
+      }
+      if (incident.message !== condition.message || condition.confidence > incident.confidence) {
+        incident.message = condition.message;
+        incident.confidence = Math.max(incident.confidence, condition.confidence);
+        changed.add(incident);
+      }
+    });
+
+    const copy = (incident: Incident): Incident => ({ ...incident });
+    return {
+      ...this.summarize(),
+      started: started.map(copy),
+      escalated: escalated.map(copy),
+      ended: ended.map(copy),
+      changed: Array.from(changed).map(copy),
+    };
+  }
+
+  /**
+   * End every open incident, e.g. when monitoring stops
+   * @returns The incidents that were closed
+   */
+  finish(now = Date.now()): Incident[] {
+    const ended: Incident[] = [];
+    this.states.forEach((state, category) => {
+      if (state.incident) {
+        state.incident.endTime = Math.min(state.lastSeen, now);
+        this.lastEnded.set(category, state.incident);
+        ended.push({ ...state.incident });
+      }
+    });
+    this.states.clear();
+    return ended;
+  }
+
+  /**
+   * Link captured evidence to an incident
+   * @returns The updated incident, or null if it is no longer known
+   */
+  attachEvidence(incidentId: string, ...evidence: EvidenceRef[]): Incident | null {
+    const incident = this.incidents.find((candidate) => candidate.id === incidentId);
+    if (!incident) return null;
+    incident.evidence = [...(incident.evidence ?? []), ...evidence];
+    return { ...incident };
+  }
+
+  /**
+   * All recorded incidents, oldest first
+   */
+  getIncidents(): Incident[] {
+    return this.incidents.map((incident) => ({ ...incident }));
+  }
+
+  reset(): void {
+    this.states.clear();
+    this.incidents = [];
+    this.lastEnded.clear();
+  }
+
+  // Reopen the previous incident of this category if it ended recently,
+  // otherwise start a new one. A reopened incident still has its end time set
+  // when returned so the caller can tell it apart from a new one.
+  private openIncident(
+    category: DetectionCategory,
+    level: Exclude<StatusLevel, 'safe'>,
+    condition: StatusCondition,
+    since: number
+  ): Incident {
+    const previous = this.lastEnded.get(category);
+    this.lastEnded.delete(category);
+    if (previous && since - previous.endTime < this.dedupeWindow) {
+      return previous;
+    }
+
+    const incident: Incident = {
+      id: `incident-${Date.now()}-${this.nextId++}`,
+      category,
+      severity: level,
+      message: condition.message,
+      startTime: since,
+      endTime: null,
+      confidence: condition.confidence,
+      metrics: condition.metrics,
+    };
+    this.incidents.push(incident);
+    if (this.incidents.length > MAX_INCIDENTS) {
+      this.incidents.shift();
+    }
+    return incident;
+  }
+
+  // The most severe current level decides the status, not the peak an incident
+  // reached earlier; ties go to category priority
+  private summarize(): Pick<StatusMachineResult, 'status' | 'message' | 'category' | 'active'> {
+    const active = DETECTION_CATEGORIES
+      .map((category) => this.states.get(category))
+      .filter((state): state is CategoryState & { incident: Incident } => Boolean(state?.incident));
+    const top = active.find((state) => state.level === 'danger') ?? active[0];
+
+    if (!top) {
+      return { status: 'safe', message: SAFE_STATUS_MESSAGE, active: [] };
+    }
+    return {
+      status: top.level ?? top.incident.severity,
+      message: top.incident.message,
+      category: top.incident.category,
+      active: active.map((state) => ({ ...state.incident })),
+    };
+  }
+}
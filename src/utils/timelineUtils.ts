@@ -0,0 +1,133 @@
+import type { StatusLevel } from './detectionUtils';
+import type { Incident } from './incidentUtils';
+
+// Live metrics at one moment, or averaged over a stretch of the session
+export interface TimelinePoint {
+  timestamp: number; // Start of the stretch the point covers
+  attention: number; // 0-100
+  faceCount: number; // Highest count seen
+  volumeLevel: number | null; // 0-1, null while audio was off
+  status: StatusLevel; // Worst status seen
+}
+
+export interface TimelineConfig {
+  maxPoints: number; // History is downsampled to stay under this
+}
+
+export const DEFAULT_TIMELINE_CONFIG: TimelineConfig = {
+  maxPoints: 720,
+};
+
+interface Bucket extends TimelinePoint {
+  samples: number;
+  volumeSamples: number;
+}
+
+const STATUS_RANK: Record<StatusLevel, number> = { safe: 0, warning: 1, danger: 2 };
+
+const worstStatus = (a: StatusLevel, b: StatusLevel): StatusLevel =>
+  STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+
+// Copies only the charted fields, so whole session samples can be added
+const toBucket = (point: TimelinePoint): Bucket => ({
+  timestamp: point.timestamp,
+  attention: point.attention,
+  faceCount: point.faceCount,
+  volumeLevel: point.volumeLevel,
+  status: point.status,
+  samples: 1,
+  volumeSamples: point.volumeLevel === null ? 0 : 1,
+});
+
+// Combine two buckets, later one second
+const mergeBuckets = (a: Bucket, b: Bucket): Bucket => {
+  const volumeSamples = a.volumeSamples + b.volumeSamples;
+  return {
+    timestamp: a.timestamp,
+    attention: (a.attention * a.samples + b.attention * b.samples) / (a.samples + b.samples),
+    faceCount: Math.max(a.faceCount, b.faceCount),
+    volumeLevel: volumeSamples > 0
+      ? ((a.volumeLevel ?? 0) * a.volumeSamples + (b.volumeLevel ?? 0) * b.volumeSamples) / volumeSamples
+      : null,
+    status: worstStatus(a.status, b.status),
+    samples: a.samples + b.samples,
+    volumeSamples,
+  };
+};
+
+/**
+ * Metric history for a whole session in bounded memory. Once full, neighbouring
+ * points are merged in pairs and each point then covers twice as many samples,
+ * so the resolution stays even across the session.
+ */
+export class TimelineBuffer {
+  config: TimelineConfig;
+  private buckets: Bucket[] = [];
+  private bucketSize = 1; // Samples per point
+
+  constructor(config: Partial<TimelineConfig> = {}) {
+    this.config = { ...DEFAULT_TIMELINE_CONFIG, ...config };
+  }
+
+  add(point: TimelinePoint): void {
+    const last = this.buckets[this.buckets.length - 1];
+    if (last && last.samples < this.bucketSize) {
+      this.buckets[this.buckets.length - 1] = mergeBuckets(last, toBucket(point));
+    } else {
+      this.buckets.push(toBucket(point));
+    }
+
+    if (this.buckets.length > this.config.maxPoints) {
+      this.compact();
+    }
+  }
+
+  getPoints(): TimelinePoint[] {
+    return this.buckets.map(({ samples: _samples, volumeSamples: _volumeSamples, ...point }) => ({
+      ...point,
+      attention: Math.round(point.attention),
+    }));
+  }
+
+  reset(): void {
+    this.buckets = [];
+    this.bucketSize = 1;
+  }
+
+  // Halve the resolution of the whole history
+  private compact() {
+    const merged: Bucket[] = [];
+    for (let i = 0; i < this.buckets.length; i += 2) {
+      const next = this.buckets[i + 1];
+      merged.push(next ? mergeBuckets(this.buckets[i], next) : this.buckets[i]);
+    }
+    this.buckets = merged;
+    this.bucketSize *= 2;
+  }
+}
+
+/**
+ * The incident to show for a moment on the timeline: one active at that
+ * time, preferring danger, or else the one starting closest to it
+ * @param tolerance How far away (ms) an inactive incident may start
+ */
+export const findIncidentAt = (
+  incidents: Incident[],
+  time: number,
+  tolerance: number,
+  now = Date.now()
+): Incident | null => {
+  const active = incidents.filter((incident) => incident.startTime <= time && time <= (incident.endTime ?? now));
+  if (active.length > 0) {
+    return active.find((incident) => incident.severity === 'danger') ?? active[0];
+  }
+
+  let closest: Incident | null = null;
+  incidents.forEach((incident) => {
+    const distance = Math.abs(incident.startTime - time);
+    if (distance <= tolerance && (!closest || distance < Math.abs(closest.startTime - time))) {
+      closest = incident;
+    }
+  });
+  return closest;
+};
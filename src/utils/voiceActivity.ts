@@ -0,0 +1,381 @@
+// Voice activity detection from short audio frames. Kept free of Web Audio
+// and DOM APIs so it can run wherever the samples are available.
+
+export interface VoiceActivityConfig {
+  minLevel: number; // dBFS below which a frame is silence, until the noise floor is measured
+  noiseMargin: number; // dB above the measured noise floor a frame needs to count as sound
+  speechBandLow: number; // Hz
+  speechBandHigh: number; // Hz
+  minSpeechBandRatio: number; // Share of the energy speech needs inside the band (0-1)
+  maxFlatness: number; // Spectral flatness above which a frame sounds like noise (0-1)
+  minZeroCrossingRate: number; // Crossings per sample; lower is hum
+  maxZeroCrossingRate: number; // Crossings per sample; higher is hiss or clicks
+  speechThreshold: number; // Frame probability from which a frame counts as speech (0-1)
+  onsetDuration: number; // ms of speech-like frames before a segment starts; shorter sounds are ignored
+  hangoverDuration: number; // ms of other frames before a segment ends
+  calibrationDuration: number; // ms spent measuring the background once monitoring starts
+  baselineAdaptAfter: number; // ms of silence before the background is re-estimated
+  baselineTimeConstant: number; // ms for a re-estimated background to follow a lasting change
+}
+
+export const DEFAULT_VOICE_ACTIVITY_CONFIG: VoiceActivityConfig = {
+  minLevel: -55,
+  speechBandLow: 300,
+  speechBandHigh: 3400,
+  minSpeechBandRatio: 0.5,
+  maxFlatness: 0.45,
+  minZeroCrossingRate: 0.01,
+  maxZeroCrossingRate: 0.3,
+  speechThreshold: 0.6,
+  onsetDuration: 150,
+  hangoverDuration: 400,
+  noiseMargin: 6,
+  calibrationDuration: 3000,
+  baselineAdaptAfter: 10000,
+  baselineTimeConstant: 60000,
+};
+
+// Measurements of one frame
+export interface VoiceFeatures {
+  level: number; // RMS level in dBFS
+  speechBandRatio: number; // Energy between speechBandLow and speechBandHigh over the total (0-1)
+  spectralFlatness: number; // Geometric over arithmetic mean of the power spectrum; 1 is white noise
+  zeroCrossingRate: number; // Sign changes per sample
+}
+
+// A stretch of continuous speech
+export interface SpeechSegment {
+  start: number;
+  end: number | null; // Null while still speaking
+  confidence: number; // Mean probability of the segment's speech frames (0-1)
+  peakLevel: number; // dBFS
+}
+
+export interface VoiceActivity {
+  speaking: boolean; // Inside a confirmed segment, including its hangover
+  probability: number; // Speech likelihood of this frame (0-1)
+  features: VoiceFeatures;
+  segment: SpeechSegment | null; // The current segment
+  ended: SpeechSegment | null; // A segment that finished with this frame
+  calibrating: boolean; // Still measuring the background
+  noiseFloor: number | null; // dBFS of the background, once measured
+}
+
+// The background a student's microphone picks up when nobody is talking
+export interface NoiseProfile {
+  level: number; // dBFS
+  spectrum: Float32Array; // Mean linear power per frequency bin
+}
+
+// Spectra below this are ignored as rumble and DC offset
+const MIN_FREQUENCY = 80;
+// Share of each bin's power kept after the background is subtracted
+const SPECTRAL_FLOOR = 0.05;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const toPower = (level: number) => Math.pow(10, level / 10);
+const toLevel = (power: number) => 10 * Math.log10(power + 1e-20);
+
+/**
+ * Power spectrum of a Hann-windowed frame, for where no AnalyserNode does the
+ * transform. The frame length must be a power of two.
+ * @returns Linear power per frequency bin, from 0 Hz up to half the sample rate
+ */
+export const computePowerSpectrum = (samples: Float32Array): Float32Array => {
+  const size = samples.length;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    real[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+  }
+
+  // Iterative radix-2 FFT: bit-reversal permutation, then butterflies
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + length / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+
+  const spectrum = new Float32Array(size / 2);
+  for (let i = 0; i < spectrum.length; i++) {
+    spectrum[i] = (real[i] * real[i] + imag[i] * imag[i]) / size;
+  }
+  return spectrum;
+};
+
+/**
+ * Measure one frame
+ * @param samples Time-domain samples (-1 to 1)
+ * @param spectrum Linear power per frequency bin, from 0 Hz up to half the sample rate
+ * @param noise Background spectrum subtracted before the spectral features are measured
+ */
+export const computeVoiceFeatures = (
+  samples: Float32Array,
+  spectrum: Float32Array,
+  sampleRate: number,
+  config: VoiceActivityConfig = DEFAULT_VOICE_ACTIVITY_CONFIG,
+  noise: Float32Array | null = null
+): VoiceFeatures => {
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  const rms = Math.sqrt(sumSquares / Math.max(samples.length, 1));
+
+  const binWidth = sampleRate / (2 * spectrum.length);
+  let total = 0;
+  let band = 0;
+  let logSum = 0;
+  let bins = 0;
+  for (let i = 0; i < spectrum.length; i++) {
+    const frequency = i * binWidth;
+    if (frequency < MIN_FREQUENCY) continue;
+    const background = noise?.length === spectrum.length ? noise[i] : 0;
+    const power = Math.max(spectrum[i] - background, spectrum[i] * SPECTRAL_FLOOR, 1e-12);
+    total += power;
+    logSum += Math.log(power);
+    bins++;
+    if (frequency >= config.speechBandLow && frequency <= config.speechBandHigh) band += power;
+  }
+
+  return {
+    level: 20 * Math.log10(rms + 1e-10),
+    speechBandRatio: total > 0 ? band / total : 0,
+    spectralFlatness: bins > 0 && total > 0 ? Math.exp(logSum / bins) / (total / bins) : 1,
+    zeroCrossingRate: crossings / Math.max(samples.length - 1, 1),
+  };
+};
+
+/**
+ * How much a frame looks like speech (0-1). Voice concentrates its energy in
+ * the speech band with harmonic, non-flat spectra and a moderate crossing
+ * rate; fans are low and flat, typing is brief, broadband and hissy.
+ */
+export const getSpeechProbability = (
+  features: VoiceFeatures,
+  config: VoiceActivityConfig = DEFAULT_VOICE_ACTIVITY_CONFIG,
+  noiseFloor: number | null = null
+): number => {
+  // Once the background is known, loudness is judged relative to it
+  const minLevel = noiseFloor === null ? config.minLevel : noiseFloor + config.noiseMargin;
+  if (features.level < minLevel) return 0;
+
+  const band = clamp((features.speechBandRatio - config.minSpeechBandRatio + 0.2) / 0.4);
+  const tonal = clamp((config.maxFlatness + 0.2 - features.spectralFlatness) / 0.4);
+  const rate = features.zeroCrossingRate;
+  const crossing = rate < config.minZeroCrossingRate
+    ? clamp(rate / config.minZeroCrossingRate)
+    : rate > config.maxZeroCrossingRate
+      ? clamp(1 - (rate - config.maxZeroCrossingRate) / config.maxZeroCrossingRate)
+      : 1;
+  // Loud frames are more certain; quiet ones sit close to the noise floor
+  const loudness = clamp((features.level - minLevel) / 15);
+
+  // Without energy in the speech band nothing else makes a frame speech
+  return band * (0.6 * tonal + 0.4 * crossing) * (0.5 + 0.5 * loudness);
+};
+
+/**
+ * Measures the background noise. The first calibrationDuration of audio sets
+ * the baseline from its quieter half, so a word or a bump meanwhile does not
+ * raise it; after that it drifts slowly towards the background of long
+ * silent stretches, following a fan switched on or a window opened.
+ */
+export class NoiseBaseline {
+  config: VoiceActivityConfig;
+  private startedAt: number | null = null;
+  private frames: { level: number; spectrum: Float32Array }[] = [];
+  private profile: NoiseProfile | null = null;
+  private quietSince: number | null = null;
+  private lastUpdate = 0;
+
+  constructor(config: Partial<VoiceActivityConfig> = {}) {
+    this.config = { ...DEFAULT_VOICE_ACTIVITY_CONFIG, ...config };
+  }
+
+  updateConfig(config: Partial<VoiceActivityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get calibrating(): boolean {
+    return this.profile === null;
+  }
+
+  /**
+   * The measured background, or null while calibrating
+   */
+  getProfile(): NoiseProfile | null {
+    return this.profile;
+  }
+
+  /**
+   * Feed one frame
+   * @param quiet Whether the frame is free of speech
+   */
+  update(level: number, spectrum: Float32Array, quiet: boolean, now = Date.now()): void {
+    const elapsed = now - this.lastUpdate;
+    this.lastUpdate = now;
+
+    if (!this.profile) {
+      this.startedAt = this.startedAt ?? now;
+      this.frames.push({ level, spectrum: spectrum.slice() });
+      if (now - this.startedAt >= this.config.calibrationDuration) {
+        this.finishCalibration();
+      }
+      return;
+    }
+
+    if (!quiet) {
+      this.quietSince = null;
+      return;
+    }
+    this.quietSince = this.quietSince ?? now;
+    if (now - this.quietSince < this.config.baselineAdaptAfter) return;
+
+    const rate = Math.min(1, elapsed / Math.max(this.config.baselineTimeConstant, 1));
+    const power = toPower(this.profile.level);
+    this.profile.level = toLevel(power + rate * (toPower(level) - power));
+    if (spectrum.length === this.profile.spectrum.length) {
+      for (let i = 0; i < spectrum.length; i++) {
+        this.profile.spectrum[i] += rate * (spectrum[i] - this.profile.spectrum[i]);
+      }
+    }
+  }
+
+  reset(): void {
+    this.startedAt = null;
+    this.frames = [];
+    this.profile = null;
+    this.quietSince = null;
+    this.lastUpdate = 0;
+  }
+
+  private finishCalibration() {
+    const quietest = [...this.frames]
+      .sort((a, b) => a.level - b.level)
+      .slice(0, Math.ceil(this.frames.length / 2));
+    const spectrum = new Float32Array(quietest[0].spectrum.length);
+    let power = 0;
+    quietest.forEach((frame) => {
+      power += toPower(frame.level) / quietest.length;
+      for (let i = 0; i < spectrum.length; i++) {
+        spectrum[i] += (frame.spectrum[i] ?? 0) / quietest.length;
+      }
+    });
+    this.profile = { level: toLevel(power), spectrum };
+    this.frames = [];
+  }
+}
+
+/**
+ * Turns per-frame speech probabilities into speech segments. A segment starts
+ * once frames have looked like speech for onsetDuration, so clicks and bumps
+ * are ignored, and ends after hangoverDuration without speech, so pauses
+ * between words do not split it.
+ */
+export class VoiceActivityDetector {
+  config: VoiceActivityConfig;
+  private onsetSince: number | null = null;
+  private lastSpeech = 0;
+  private current: SpeechSegment | null = null;
+  private probabilitySum = 0;
+  private frameCount = 0;
+  private baseline: NoiseBaseline;
+
+  constructor(config: Partial<VoiceActivityConfig> = {}) {
+    this.config = { ...DEFAULT_VOICE_ACTIVITY_CONFIG, ...config };
+    this.baseline = new NoiseBaseline(this.config);
+  }
+
+  updateConfig(config: Partial<VoiceActivityConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.baseline.updateConfig(config);
+  }
+
+  /**
+   * Measure a frame against the background and judge it, then let the
+   * background follow it outside speech segments
+   * @param spectrum Linear power per frequency bin, from 0 Hz up to half the sample rate
+   */
+  analyse(samples: Float32Array, spectrum: Float32Array, sampleRate: number, now = Date.now()): VoiceActivity {
+    const noise = this.baseline.getProfile();
+    const features = computeVoiceFeatures(samples, spectrum, sampleRate, this.config, noise?.spectrum ?? null);
+    const activity = this.update(features, now);
+    // Stray speech-like frames in noise never form segments, so only segments break the silence
+    this.baseline.update(features.level, spectrum, !activity.speaking, now);
+    return activity;
+  }
+
+  update(features: VoiceFeatures, now = Date.now()): VoiceActivity {
+    const noiseFloor = this.baseline.getProfile()?.level ?? null;
+    const probability = getSpeechProbability(features, this.config, noiseFloor);
+    const speechLike = probability >= this.config.speechThreshold;
+    let ended: SpeechSegment | null = null;
+
+    if (speechLike) {
+      this.lastSpeech = now;
+      this.onsetSince = this.onsetSince ?? now;
+      if (!this.current && now - this.onsetSince >= this.config.onsetDuration) {
+        this.current = { start: this.onsetSince, end: null, confidence: 0, peakLevel: features.level };
+        this.probabilitySum = 0;
+        this.frameCount = 0;
+      }
+    } else if (!this.current) {
+      this.onsetSince = null;
+    }
+
+    if (this.current) {
+      if (speechLike) {
+        this.probabilitySum += probability;
+        this.frameCount++;
+        this.current.confidence = this.probabilitySum / this.frameCount;
+        this.current.peakLevel = Math.max(this.current.peakLevel, features.level);
+      } else if (now - this.lastSpeech >= this.config.hangoverDuration) {
+        ended = { ...this.current, end: this.lastSpeech };
+        this.current = null;
+        this.onsetSince = null;
+      }
+    }
+
+    return {
+      speaking: this.current !== null,
+      probability,
+      features,
+      segment: this.current ? { ...this.current } : null,
+      ended,
+      calibrating: this.baseline.calibrating,
+      noiseFloor,
+    };
+  }
+
+  reset(): void {
+    this.onsetSince = null;
+    this.lastSpeech = 0;
+    this.current = null;
+    this.probabilitySum = 0;
+    this.frameCount = 0;
+    this.baseline.reset();
+  }
+}
@@ -0,0 +1,87 @@
+// Speech detection on the audio rendering thread. Samples are gathered into
+// fixed windows and judged on the audio clock, so analysis keeps its pace
+// however busy the main thread or the video pipeline are.
+import type {
+  AudioAnalysisOptions,
+  AudioAnalysisRequest,
+  AudioAnalysisResponse,
+} from '@/utils/audioUtils';
+import { VoiceActivityDetector, computePowerSpectrum } from '@/utils/voiceActivity';
+import { SpeakerTracker } from '@/utils/speakerAnalysis';
+
+// The AudioWorklet global scope is not part of the DOM typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: { processorOptions: AudioAnalysisOptions }) => AudioWorkletProcessor
+): void;
+
+class AudioAnalysisProcessor extends AudioWorkletProcessor {
+  private options: AudioAnalysisOptions;
+  private detector: VoiceActivityDetector;
+  private speakers: SpeakerTracker;
+  private window: Float32Array;
+  private filled = 0;
+  private lastReport = -Infinity;
+  private wasSpeaking = false;
+  private wasCalibrating = true;
+  private lastVoiceCount = 0;
+
+  constructor({ processorOptions }: { processorOptions: AudioAnalysisOptions }) {
+    super();
+    this.options = processorOptions;
+    this.detector = new VoiceActivityDetector(processorOptions.config);
+    this.speakers = new SpeakerTracker(processorOptions.config);
+    this.window = new Float32Array(processorOptions.windowSize);
+    this.port.onmessage = (event: MessageEvent<AudioAnalysisRequest>) => {
+      const request = event.data;
+      if (request.type === 'config') {
+        this.options = { ...this.options, config: request.config };
+        this.detector.updateConfig(request.config);
+        this.speakers.updateConfig(request.config);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // Mono input; nothing arrives while the microphone is disconnected
+    const samples = inputs[0]?.[0];
+    if (!samples) return true;
+
+    for (let i = 0; i < samples.length; i++) {
+      this.window[this.filled++] = samples[i];
+      if (this.filled === this.window.length) {
+        this.analyseWindow(currentFrame + i + 1);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+
+  private analyseWindow(endFrame: number) {
+    const now = this.options.clockOffset + (endFrame / sampleRate) * 1000;
+    const spectrum = computePowerSpectrum(this.window);
+    const activity = this.detector.analyse(this.window, spectrum, sampleRate, now);
+    const isSpeech = activity.speaking && activity.probability >= this.detector.config.speechThreshold;
+    const voices = this.speakers.update(this.window, spectrum, sampleRate, isSpeech, now);
+
+    // Report at a steady rate, and straight away when speech, calibration or the voice count change
+    const changed = activity.speaking !== this.wasSpeaking
+      || activity.calibrating !== this.wasCalibrating
+      || voices.voiceCount !== this.lastVoiceCount
+      || activity.ended !== null;
+    this.wasSpeaking = activity.speaking;
+    this.wasCalibrating = activity.calibrating;
+    this.lastVoiceCount = voices.voiceCount;
+    if (!changed && now - this.lastReport < this.options.reportInterval) return;
+    this.lastReport = now;
+    const response: AudioAnalysisResponse = { type: 'activity', activity, voices };
+    this.port.postMessage(response);
+  }
+}
+
+registerProcessor('audio-analysis', AudioAnalysisProcessor);
@@ -0,0 +1,95 @@
+import * as tf from '@tensorflow/tfjs';
+import * as blazeface from '@tensorflow-models/blazeface';
+import type {
+  FaceInferenceRequest,
+  FaceInferenceResponse,
+  SerializedFace,
+} from '@/utils/faceInferenceClient';
+
+let model: blazeface.BlazeFaceModel | null = null;
+
+const post = (message: FaceInferenceResponse) => {
+  self.postMessage(message);
+};
+
+/**
+ * Pick the fastest TensorFlow backend available inside the worker
+ */
+const setupBackend = async () => {
+  try {
+    // WebGL runs on an OffscreenCanvas when the browser supports it
+    if (typeof OffscreenCanvas !== 'undefined' && await tf.setBackend('webgl')) {
+      return;
+    }
+  } catch (error) {
+    console.warn('Worker WebGL backend unavailable, using CPU:', error);
+  }
+  await tf.setBackend('cpu');
+};
+
+/**
+ * Convert a prediction to plain arrays that can cross the worker boundary
+ */
+const serializeFace = (face: blazeface.NormalizedFace): SerializedFace => {
+  const toArray = <T>(value: T | tf.Tensor): T =>
+    value instanceof tf.Tensor ? (value.arraySync() as T) : value;
+
+  const probability = toArray(face.probability);
+
+  return {
+    topLeft: toArray(face.topLeft) as [number, number],
+    bottomRight: toArray(face.bottomRight) as [number, number],
+    landmarks: face.landmarks ? toArray(face.landmarks) as number[][] : undefined,
+    probability: Array.isArray(probability) ? probability[0] : probability,
+  };
+};
+
+const handleInit = async (config: Extract<FaceInferenceRequest, { type: 'init' }>['config']) => {
+  try {
+    if (!model) {
+      await setupBackend();
+      model = await blazeface.load(config);
+    }
+    post({ type: 'ready' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+const handleFrame = async (id: number, bitmap: ImageBitmap) => {
+  if (!model) {
+    bitmap.close();
+    post({ type: 'error', id, message: 'Face detection model is not loaded' });
+    return;
+  }
+
+  const startTime = performance.now();
+  try {
+    const imageTensor = tf.browser.fromPixels(bitmap);
+    const faces = await model.estimateFaces(imageTensor, false);
+    imageTensor.dispose(); // Clean up tensor
+
+    post({
+      type: 'result',
+      id,
+      faces: faces.map(serializeFace),
+      inferenceTime: performance.now() - startTime,
+    });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = (event: MessageEvent<FaceInferenceRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      handleInit(request.config);
+      break;
+    case 'frame':
+      handleFrame(request.id, request.bitmap);
+      break;
+  }
+};
@@ -0,0 +1,23 @@
+// Timer that keeps ticking while the page is hidden. Timers inside a worker
+// are not throttled the way main-thread timers and rAF are in background tabs.
+
+export type SchedulerClockRequest =
+  | { type: 'start'; interval: number }
+  | { type: 'stop' };
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+const stop = () => {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+self.onmessage = (event: MessageEvent<SchedulerClockRequest>) => {
+  const request = event.data;
+  stop();
+  if (request.type === 'start') {
+    timer = setInterval(() => self.postMessage('tick'), request.interval);
+  }
+};
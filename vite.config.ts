@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Model weights shipped inside npm packages, served as app assets
+      "@models/human": path.resolve(__dirname, "./node_modules/@vladmandic/human/models"),
     },
   },
 }));